@@ -20,11 +20,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       events: 'div,splits',
     })
 
-    const prices = result.quotes.map((quote) => ({
-      date: quote.date.toISOString().split('T')[0],
-      price: Math.round((quote.adjclose ?? quote.close ?? 0) * 100) / 100,
-      high: Math.round((quote.high ?? 0) * 100) / 100,
-    })).filter((p) => p.price > 0)
+    // Keep the raw close and the dividend-adjusted close apart; the client picks one.
+    // `price` defaults to the raw close so dividends aren't baked into history.
+    const prices = result.quotes.map((quote) => {
+      const close = Math.round((quote.close ?? quote.adjclose ?? 0) * 100) / 100
+      return {
+        date: quote.date.toISOString().split('T')[0],
+        price: close,
+        close,
+        adjClose: Math.round((quote.adjclose ?? quote.close ?? 0) * 100) / 100,
+        high: Math.round((quote.high ?? 0) * 100) / 100,
+      }
+    }).filter((p) => p.price > 0)
 
     const splits = (result.events?.splits || []).map((split: { date: Date; numerator: number; denominator: number }) => ({
       date: split.date.toISOString().split('T')[0],
@@ -32,9 +39,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       splitFactor: split.numerator / split.denominator,
     }))
 
-    console.log(`[API] Yahoo Finance ${ticker}: ${prices.length} prices, ${splits.length} splits`)
+    // Extract dividend events (cash per share, owed to anyone holding before the ex-date)
+    const dividends = (result.events?.dividends || []).map((dividend: { date: Date; amount: number }) => ({
+      date: dividend.date.toISOString().split('T')[0],
+      ticker,
+      amount: dividend.amount,
+    }))
+
+    console.log(`[API] Yahoo Finance ${ticker}: ${prices.length} prices, ${splits.length} splits, ${dividends.length} dividends`)
 
-    return res.status(200).json({ prices, splits })
+    return res.status(200).json({ prices, splits, dividends })
   } catch (error) {
     console.error('Yahoo Finance error:', error)
     return res.status(500).json({ error: String(error) })
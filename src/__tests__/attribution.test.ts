@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calculateAttribution } from '../utils/attribution';
+import { calculateDailyTimeSeries } from '../utils/calculations';
+import { createTickerBenchmark } from '../utils/benchmarks';
+import type { Trade } from '../types/Trade';
+import type { CashFlow } from '../types/CashFlow';
+import type { StockPrice } from '../types/StockPrice';
+
+vi.mock('../utils/logger', () => ({
+  perf: { start: vi.fn(), end: vi.fn() },
+}));
+
+const spyPrices: StockPrice[] = [
+  { date: '2023-01-02', price: 380 },
+  { date: '2023-01-03', price: 382 },
+  { date: '2023-01-04', price: 385 },
+  { date: '2023-01-05', price: 383 },
+  { date: '2023-01-06', price: 388 },
+];
+
+const stockPrices: Record<string, StockPrice[]> = {
+  AAPL: [
+    { date: '2023-01-02', price: 130 },
+    { date: '2023-01-03', price: 132 },
+    { date: '2023-01-04', price: 135 },
+    { date: '2023-01-05', price: 133 },
+    { date: '2023-01-06', price: 138 },
+  ],
+  MSFT: [
+    { date: '2023-01-02', price: 240 },
+    { date: '2023-01-03', price: 238 },
+    { date: '2023-01-04', price: 230 },
+    { date: '2023-01-05', price: 225 },
+    { date: '2023-01-06', price: 228 },
+  ],
+};
+
+const benchmarkPrices = { SPY: spyPrices };
+const spy = createTickerBenchmark('SPY');
+
+function makeTrade(overrides: Partial<Trade> & { ticker: string; date: string; shares: number }): Trade {
+  return {
+    id: overrides.id ?? `${overrides.ticker}-${overrides.date}`,
+    type: 'buy',
+    ...overrides,
+  };
+}
+
+function attribute(trades: Trade[], cashFlows: CashFlow[] = []) {
+  const daily = calculateDailyTimeSeries(trades, stockPrices, benchmarkPrices, cashFlows, {}, [spy]);
+  return { daily, report: calculateAttribution(trades, stockPrices, benchmarkPrices, {}, spy, daily, 500) };
+}
+
+describe('calculateAttribution', () => {
+  it('compares a holding with the same dollars in the benchmark', () => {
+    const { report } = attribute([makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })]);
+
+    const expected = 10 * 138 - (1300 / 380) * 388;
+    expect(report.benchmark).toBe('SPY');
+    expect(report.tickers).toEqual([{ ticker: 'AAPL', contribution: expect.closeTo(expected, 2), closed: false }]);
+  });
+
+  it('adds up to the total difference when trades fund the portfolio', () => {
+    const { daily, report } = attribute([
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'MSFT', date: '2023-01-03', shares: 5, price: 238 }),
+    ]);
+
+    const last = daily[daily.length - 1];
+    expect(report.totalDifference).toBeCloseTo(last.portfolioValue - last.counterfactualValues.SPY, 2);
+    const sum = report.tickers.reduce((total, t) => total + t.contribution, 0);
+    expect(sum + report.cashAndTiming).toBeCloseTo(report.totalDifference, 1);
+    expect(report.cashAndTiming).toBeCloseTo(0, 1);
+  });
+
+  it('orders tickers from the largest contribution down', () => {
+    const { report } = attribute([
+      makeTrade({ ticker: 'MSFT', date: '2023-01-02', shares: 5, price: 240 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+    ]);
+
+    expect(report.tickers.map(t => t.ticker)).toEqual(['AAPL', 'MSFT']);
+    expect(report.tickers[1].contribution).toBeLessThan(0);
+  });
+
+  it('keeps the excess a sold position locked in', () => {
+    const { report } = attribute([
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'MSFT', date: '2023-01-02', shares: 10, price: 240 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell' }),
+    ]);
+
+    // No AAPL is held, but its benchmark mirror bought $1300 and sold $1350 worth
+    const expected = -((1300 / 380) * 388 - (1350 / 385) * 388);
+    const aapl = report.tickers.find(t => t.ticker === 'AAPL');
+    expect(aapl).toEqual({ ticker: 'AAPL', contribution: expect.closeTo(expected, 2), closed: true });
+  });
+
+  it('puts uninvested cash in the cash and timing remainder', () => {
+    const cashFlows: CashFlow[] = [{ id: 'd1', date: '2023-01-02', amount: 3000, type: 'deposit' }];
+    const { daily, report } = attribute(
+      [makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 10, price: 132 })],
+      cashFlows,
+    );
+
+    // The idle $1680 earns nothing while the whole deposit sits in SPY
+    const last = daily[daily.length - 1];
+    expect(report.cashAndTiming).toBeCloseTo(
+      last.portfolioValue - last.counterfactualValues.SPY - report.tickers[0].contribution,
+      1,
+    );
+    expect(report.cashAndTiming).toBeLessThan(0);
+  });
+
+  it('tracks contributions over time', () => {
+    const { report } = attribute([makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })]);
+
+    expect(report.series.map(p => p.date)).toEqual(spyPrices.map(p => p.date));
+    expect(report.series[0].contributions.AAPL).toBeCloseTo(0, 2);
+    expect(report.series[2].contributions.AAPL).toBeCloseTo(1350 - (1300 / 380) * 385, 2);
+  });
+
+  it('is empty without a daily series', () => {
+    const report = calculateAttribution([], stockPrices, benchmarkPrices, {}, spy, [], 500);
+    expect(report.tickers).toEqual([]);
+    expect(report.series).toEqual([]);
+    expect(report.totalDifference).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTickerBenchmark,
+  parseBlendedBenchmark,
+  getBenchmarkTickers,
+  simulateBenchmark,
+} from '../utils/benchmarks';
+import type { StockPrice } from '../types/StockPrice';
+
+// --- test data ---
+
+// Stocks double over the quarter while bonds stay flat
+const vtiPrices: StockPrice[] = [
+  { date: '2023-03-30', price: 100 },
+  { date: '2023-03-31', price: 150 },
+  { date: '2023-04-03', price: 200 },
+  { date: '2023-04-04', price: 200 },
+];
+
+const bndPrices: StockPrice[] = [
+  { date: '2023-03-30', price: 50 },
+  { date: '2023-03-31', price: 50 },
+  { date: '2023-04-03', price: 50 },
+  { date: '2023-04-04', price: 50 },
+];
+
+const prices = { VTI: vtiPrices, BND: bndPrices };
+const dates = vtiPrices.map(p => p.date);
+
+// ============================================================
+// Benchmark definitions
+// ============================================================
+
+describe('parseBlendedBenchmark', () => {
+  it('parses a percentage blend', () => {
+    const benchmark = parseBlendedBenchmark('60% VTI / 40% BND', 'quarterly');
+    expect(benchmark.components).toEqual([
+      { ticker: 'VTI', weight: 0.6 },
+      { ticker: 'BND', weight: 0.4 },
+    ]);
+    expect(benchmark.rebalance).toBe('quarterly');
+    expect(benchmark.id).toBe('60% VTI / 40% BND (quarterly)');
+  });
+
+  it('accepts comma-separated weights without percent signs', () => {
+    const benchmark = parseBlendedBenchmark('70 vti, 30 bnd', 'annually');
+    expect(benchmark.components.map(c => c.ticker)).toEqual(['VTI', 'BND']);
+    expect(benchmark.id).toBe('70% VTI / 30% BND (annually)');
+  });
+
+  it('rejects weights that do not add up to 100%', () => {
+    expect(() => parseBlendedBenchmark('60% VTI / 30% BND', 'none')).toThrow('add up to 100%');
+  });
+
+  it('rejects unreadable components', () => {
+    expect(() => parseBlendedBenchmark('VTI and BND', 'none')).toThrow('Could not read');
+  });
+
+  it('collapses a 100% blend into a plain ticker benchmark', () => {
+    expect(parseBlendedBenchmark('100% QQQ', 'monthly')).toEqual(createTickerBenchmark('QQQ'));
+  });
+});
+
+describe('getBenchmarkTickers', () => {
+  it('lists every component ticker once', () => {
+    const benchmarks = [
+      createTickerBenchmark('VTI'),
+      parseBlendedBenchmark('60% VTI / 40% BND', 'quarterly'),
+    ];
+    expect(getBenchmarkTickers(benchmarks)).toEqual(['VTI', 'BND']);
+  });
+});
+
+// ============================================================
+// simulateBenchmark
+// ============================================================
+
+describe('simulateBenchmark', () => {
+  it('converts contributions to shares of a single ticker', () => {
+    const values = simulateBenchmark(
+      createTickerBenchmark('VTI'), prices, [{ date: '2023-03-30', amount: 1000 }], dates,
+    );
+    // 10 shares of VTI
+    expect(values).toEqual([1000, 1500, 2000, 2000]);
+  });
+
+  it('values holdings as zero until the first contribution', () => {
+    const values = simulateBenchmark(
+      createTickerBenchmark('VTI'), prices, [{ date: '2023-03-31', amount: 1500 }], dates,
+    );
+    expect(values[0]).toBe(0);
+    expect(values[1]).toBe(1500);
+  });
+
+  it('sells shares for negative contributions', () => {
+    const values = simulateBenchmark(
+      createTickerBenchmark('VTI'),
+      prices,
+      [
+        { date: '2023-03-30', amount: 1000 },
+        { date: '2023-04-03', amount: -1000 },
+      ],
+      dates,
+    );
+    // 10 shares, then sell 5 at $200
+    expect(values[3]).toBe(1000);
+  });
+
+  it('reinvests dividends into more shares on the ex-date', () => {
+    const dividends = { VTI: [{ date: '2023-03-31', ticker: 'VTI', amount: 3 }] };
+    const values = simulateBenchmark(
+      createTickerBenchmark('VTI'), prices, [{ date: '2023-03-30', amount: 1000 }], dates, dividends,
+    );
+    // 10 shares earn $30, buying 0.2 more shares at $150
+    expect(values[1]).toBeCloseTo(10.2 * 150, 6);
+    expect(values[3]).toBeCloseTo(10.2 * 200, 6);
+  });
+
+  it('pays no dividend on shares bought on the ex-date', () => {
+    const dividends = { VTI: [{ date: '2023-03-31', ticker: 'VTI', amount: 3 }] };
+    const values = simulateBenchmark(
+      createTickerBenchmark('VTI'), prices, [{ date: '2023-03-31', amount: 1500 }], dates, dividends,
+    );
+    expect(values[1]).toBe(1500);
+  });
+
+  it('charges the expense ratio every calendar day', () => {
+    const flat = { BND: bndPrices };
+    const values = simulateBenchmark(
+      createTickerBenchmark('BND'), flat, [{ date: '2023-03-30', amount: 1000 }], dates, {}, 1,
+    );
+    expect(values[0]).toBe(1000);
+    // Five calendar days at 1% a year, weekend included
+    expect(values[3]).toBeCloseTo(1000 * Math.pow(0.99, 5 / 365), 6);
+  });
+
+  it('charges each contribution only from its own date, however sparse the dates', () => {
+    const flat = { BND: bndPrices };
+    const contributions = [
+      { date: '2023-03-30', amount: 1000 },
+      { date: '2023-04-03', amount: 1000 },
+    ];
+    const [sparse] = simulateBenchmark(createTickerBenchmark('BND'), flat, contributions, ['2023-04-04'], {}, 1);
+    expect(sparse).toBeCloseTo(1000 * Math.pow(0.99, 5 / 365) + 1000 * Math.pow(0.99, 1 / 365), 6);
+  });
+
+  it('splits each contribution across components by weight', () => {
+    const blend = parseBlendedBenchmark('60% VTI / 40% BND', 'none');
+    const values = simulateBenchmark(blend, prices, [{ date: '2023-03-30', amount: 1000 }], dates);
+    // 6 VTI shares + 8 BND shares, never rebalanced
+    expect(values[0]).toBe(1000);
+    expect(values[3]).toBe(6 * 200 + 8 * 50);
+  });
+
+  it('rebalances back to target weights at the start of each period', () => {
+    // VTI falls back to $100 after the quarter turns
+    const volatilePrices = { VTI: [...vtiPrices, { date: '2023-04-05', price: 100 }], BND: bndPrices };
+    const allDates = [...dates, '2023-04-05'];
+    const contributions = [{ date: '2023-03-30', amount: 1000 }];
+
+    const unbalanced = simulateBenchmark(
+      parseBlendedBenchmark('50% VTI / 50% BND', 'none'), volatilePrices, contributions, allDates,
+    );
+    const rebalanced = simulateBenchmark(
+      parseBlendedBenchmark('50% VTI / 50% BND', 'quarterly'), volatilePrices, contributions, allDates,
+    );
+
+    // Both start with 5 VTI + 10 BND and are worth 1500 on Apr 3
+    expect(unbalanced[2]).toBe(1500);
+    expect(rebalanced[2]).toBe(1500);
+    // Unbalanced: 5 VTI * 100 + 10 BND * 50 = 1000
+    expect(unbalanced[4]).toBe(1000);
+    // Rebalanced on Apr 3 to 3.75 VTI + 15 BND: 375 + 750 = 1125
+    expect(rebalanced[4]).toBe(1125);
+  });
+});
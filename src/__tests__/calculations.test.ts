@@ -1,14 +1,18 @@
 import { describe, it, expect, vi } from 'vitest';
 import {
   calculatePortfolioTimeSeries,
+  calculateSellRegret,
   calculateStockBreakdown,
   calculateSummary,
+  getDefaultFreezeDate,
 } from '../utils/calculations';
+import { parseBlendedBenchmark } from '../utils/benchmarks';
 import type { Trade } from '../types/Trade';
 import type { CashFlow } from '../types/CashFlow';
 import type { StockPrice } from '../types/StockPrice';
 import type { StockBreakdownData } from '../types/StockBreakdownData';
 import type { StockSplit } from '../types/StockSplit';
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
 
 // Mock the logger to avoid fetch calls
 vi.mock('../utils/logger', () => ({
@@ -64,7 +68,7 @@ describe('total deposit value', () => {
     const cashFlows: CashFlow[] = [
       { id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' },
     ];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices, cashFlows);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
     const point = result.find(p => p.date === '2023-01-02');
     expect(point!.totalDeposits).toBe(2000);
   });
@@ -78,7 +82,7 @@ describe('total deposit value', () => {
       { id: 'cf1', date: '2023-01-02', amount: 1500, type: 'deposit' },
       { id: 'cf2', date: '2023-01-04', amount: 800, type: 'deposit' },
     ];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices, cashFlows);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
 
     const beforeSecond = result.find(p => p.date === '2023-01-03');
     expect(beforeSecond!.totalDeposits).toBe(1500);
@@ -89,7 +93,7 @@ describe('total deposit value', () => {
 
   it('cost basis falls back to trade cost when no cash flows', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
     const point = result.find(p => p.date === '2023-01-02');
     expect(point!.totalDeposits).toBe(1300);
   });
@@ -99,7 +103,7 @@ describe('total deposit value', () => {
       makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
       makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 5, price: 135, type: 'sell', id: 'a2' }),
     ];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
     const afterSell = result.find(p => p.date === '2023-01-04');
     // Trade cost basis: 10*130 - 5*135 = 1300 - 675 = 625
     expect(afterSell!.totalDeposits).toBe(625);
@@ -113,7 +117,7 @@ describe('total deposit value', () => {
 describe('total portfolio value', () => {
   it('equals shares times price for a single holding', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     const point = result.find(p => p.date === '2023-01-02');
     expect(point!.portfolioValue).toBe(1300);
@@ -121,7 +125,7 @@ describe('total portfolio value', () => {
 
   it('updates with changing stock price', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     const later = result.find(p => p.date === '2023-01-06');
     expect(later!.portfolioValue).toBe(1380); // 10 * 138
@@ -139,7 +143,7 @@ describe('total portfolio value', () => {
     const result = calculatePortfolioTimeSeries(
       trades,
       { AAPL: aaplPrices, GOOG: googPrices },
-      spyPrices.slice(0, 2),
+      { SPY: spyPrices.slice(0, 2) },
     );
 
     const point = result.find(p => p.date === '2023-01-02');
@@ -151,19 +155,41 @@ describe('total portfolio value', () => {
       makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
       makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 5, price: 135, type: 'sell', id: 'a2' }),
     ];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     const afterSell = result.find(p => p.date === '2023-01-06');
     expect(afterSell!.portfolioValue).toBe(690); // 5 * 138
   });
 
+  it('keeps valuing the holdings after a sell returns more than was put in', () => {
+    // No deposits, so the basis is net trade cash: 1000 in, 1000 back out
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 100 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 5, price: 200, type: 'sell', id: 'a2' }),
+    ];
+    const prices = { AAPL: aaplPrices };
+    const timeSeries = calculatePortfolioTimeSeries(trades, prices, { SPY: spyPrices });
+
+    expect(timeSeries.map(p => p.date)).toEqual(spyPrices.map(p => p.date));
+    const last = timeSeries[timeSeries.length - 1];
+    expect(last.portfolioValue).toBe(690); // 5 * 138
+    expect(last.portfolioReturn).toBeNull();
+    expect(last.counterfactualReturns.SPY).toBeNull();
+
+    const breakdown = calculateStockBreakdown(trades, prices, { SPY: spyPrices });
+    const summary = calculateSummary(breakdown, [], trades, timeSeries);
+    expect(summary.totalPortfolioValue).toBe(690);
+    expect(summary.totalCounterfactualValue).toBe(last.counterfactualValues.SPY);
+    expect(summary.portfolioReturn).toBeNull();
+  });
+
   it('returns empty when no trades', () => {
-    expect(calculatePortfolioTimeSeries([], {}, spyPrices)).toEqual([]);
+    expect(calculatePortfolioTimeSeries([], {}, { SPY: spyPrices })).toEqual([]);
   });
 
   it('returns empty when no SPY prices', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    expect(calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, [])).toEqual([]);
+    expect(calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: [] })).toEqual([]);
   });
 });
 
@@ -174,22 +200,22 @@ describe('total portfolio value', () => {
 describe('SP500 counterfactual projections', () => {
   it('invests the same dollar amount in SPY on the trade date', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     const buyDay = result.find(p => p.date === '2023-01-02');
     // Trade cost = 10*130 = 1300. SPY price on Jan 2 = 380.
     // SPY shares = 1300/380 ≈ 3.4211. Counterfactual value = 3.4211 * 380 = 1300.
-    expect(buyDay!.counterfactualValue).toBeCloseTo(1300, 0);
+    expect(buyDay!.counterfactualValues.SPY).toBeCloseTo(1300, 0);
   });
 
   it('counterfactual value tracks SPY price changes', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     const later = result.find(p => p.date === '2023-01-06');
     // SPY shares = 1300/380 ≈ 3.4211. SPY on Jan 6 = 388.
     // Counterfactual = 3.4211 * 388 ≈ 1327.37
-    expect(later!.counterfactualValue).toBeCloseTo(3.4211 * 388, 0);
+    expect(later!.counterfactualValues.SPY).toBeCloseTo(3.4211 * 388, 0);
   });
 
   it('uses deposit-based SPY shares when cash flows are provided', () => {
@@ -197,12 +223,12 @@ describe('SP500 counterfactual projections', () => {
     const cashFlows: CashFlow[] = [
       { id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' },
     ];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices, cashFlows);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
 
     const buyDay = result.find(p => p.date === '2023-01-02');
     // Deposit $2000 at SPY=380 => 2000/380 ≈ 5.2632 SPY shares
     // Counterfactual = 5.2632 * 380 ≈ 2000
-    expect(buyDay!.counterfactualValue).toBeCloseTo(2000, 0);
+    expect(buyDay!.counterfactualValues.SPY).toBeCloseTo(2000, 0);
   });
 
   it('accumulates SPY shares from multiple deposits', () => {
@@ -214,25 +240,450 @@ describe('SP500 counterfactual projections', () => {
       { id: 'cf1', date: '2023-01-02', amount: 1500, type: 'deposit' },
       { id: 'cf2', date: '2023-01-04', amount: 800, type: 'deposit' },
     ];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices, cashFlows);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
 
     const afterBoth = result.find(p => p.date === '2023-01-06');
     // Deposit 1: 1500/380 ≈ 3.9474 SPY shares
     // Deposit 2: 800/385 ≈ 2.0779 SPY shares (SPY=385 on Jan 4)
     // Total SPY shares ≈ 6.0253. At SPY=388: 6.0253 * 388 ≈ 2337.82
     const expectedSpyShares = 1500 / 380 + 800 / 385;
-    expect(afterBoth!.counterfactualValue).toBeCloseTo(expectedSpyShares * 388, 0);
+    expect(afterBoth!.counterfactualValues.SPY).toBeCloseTo(expectedSpyShares * 388, 0);
   });
 
   it('counterfactual return is calculated relative to cost basis', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     const later = result.find(p => p.date === '2023-01-06');
     // Cost basis = 1300. Counterfactual = 3.4211 * 388 ≈ 1327.37
     // Return = (1327.37 - 1300) / 1300 * 100 ≈ 2.11%
     const expectedReturn = ((3.4211 * 388 - 1300) / 1300) * 100;
-    expect(later!.counterfactualReturn).toBeCloseTo(expectedReturn, 0);
+    expect(later!.counterfactualReturns.SPY).toBeCloseTo(expectedReturn, 0);
+  });
+});
+
+// ============================================================
+// Benchmark dividend reinvestment
+// ============================================================
+
+describe('benchmark dividend reinvestment', () => {
+  const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+  // A 1% dividend on SPY's Jan 4 ex-date
+  const benchmarkDividends = { SPY: [{ date: '2023-01-04', ticker: 'SPY', amount: 3.85 }] };
+
+  it('buys extra benchmark shares with each dividend when enabled', () => {
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices }, [], {}, undefined,
+      { benchmarkDividends, reinvestDividends: true },
+    );
+
+    const last = result[result.length - 1];
+    expect(last.counterfactualValues.SPY).toBeCloseTo((1300 / 380) * 1.01 * 388, 1);
+  });
+
+  it('ignores dividends unless reinvestment is turned on', () => {
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices }, [], {}, undefined,
+      { benchmarkDividends },
+    );
+
+    const last = result[result.length - 1];
+    expect(last.counterfactualValues.SPY).toBeCloseTo((1300 / 380) * 388, 1);
+  });
+});
+
+// ============================================================
+// Time-weighted returns
+// ============================================================
+
+describe('time-weighted returns', () => {
+  it('removes the effect of buying more shares later', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, id: 'a2' }),
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    const last = result[result.length - 1];
+    // Simple return: 20 * 138 = 2760 on a 2650 cost basis
+    expect(last.portfolioReturn).toBeCloseTo(((2760 - 2650) / 2650) * 100, 1);
+    // Time-weighted return is AAPL's own price move: 130 -> 138
+    expect(last.portfolioTimeWeightedReturn).toBeCloseTo((138 / 130 - 1) * 100, 1);
+    // Same for SPY bought on the same days: 380 -> 388
+    expect(last.counterfactualTimeWeightedReturns.SPY).toBeCloseTo((388 / 380 - 1) * 100, 1);
+  });
+});
+
+// ============================================================
+// Multiple benchmarks
+// ============================================================
+
+describe('multiple benchmarks', () => {
+  const bndPrices: StockPrice[] = [
+    { date: '2023-01-02', price: 70 },
+    { date: '2023-01-03', price: 70.5 },
+    { date: '2023-01-04', price: 71 },
+    { date: '2023-01-05', price: 70 },
+    { date: '2023-01-06', price: 72 },
+  ];
+
+  it('tracks one counterfactual line per benchmark', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1400, type: 'deposit' },
+    ];
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices, BND: bndPrices }, cashFlows,
+    );
+
+    const last = result[result.length - 1];
+    expect(Object.keys(last.counterfactualValues)).toEqual(['SPY', 'BND']);
+    expect(last.counterfactualValues.SPY).toBeCloseTo((1400 / 380) * 388, 1);
+    // 1400 / 70 = 20 BND shares, worth 20 * 72 = 1440
+    expect(last.counterfactualValues.BND).toBe(1440);
+    expect(last.counterfactualReturns.BND).toBeCloseTo(((1440 - 1400) / 1400) * 100, 1);
+  });
+
+  it('summary reports the difference against each benchmark', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const breakdown = calculateStockBreakdown(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices, BND: bndPrices },
+    );
+    const result = calculateSummary(breakdown, [], trades);
+
+    expect(result.benchmarkComparisons.map(c => c.benchmark)).toEqual(['SPY', 'BND']);
+    // 1300 / 70 ≈ 18.571 BND shares, worth ≈ 1337.14; portfolio is worth 1380
+    const bnd = result.benchmarkComparisons[1];
+    expect(bnd.counterfactualValue).toBeCloseTo(1337.14, 1);
+    expect(bnd.difference).toBeCloseTo(1380 - 1337.14, 1);
+    // The primary benchmark still drives the headline numbers
+    expect(result.totalCounterfactualValue).toBe(result.benchmarkComparisons[0].counterfactualValue);
+  });
+
+  it('keys a blended benchmark by its label', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1400, type: 'deposit' },
+    ];
+    const blend = parseBlendedBenchmark('50% SPY / 50% BND', 'none');
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices, BND: bndPrices }, cashFlows, {}, [blend],
+    );
+
+    const last = result[result.length - 1];
+    expect(Object.keys(last.counterfactualValues)).toEqual(['50% SPY / 50% BND (never rebalanced)']);
+    // Half the deposit in each: 700 / 380 SPY shares and 10 BND shares
+    expect(last.counterfactualValues[blend.id]).toBeCloseTo((700 / 380) * 388 + 10 * 72, 1);
+  });
+});
+
+// ============================================================
+// Uninvested cash
+// ============================================================
+
+describe('uninvested cash', () => {
+  it('counts deposited cash that has not been invested', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' },
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    const buyDay = result.find(p => p.date === '2023-01-02');
+    expect(buyDay!.cashBalance).toBe(700);
+    // Nothing is lost just because $700 is still sitting in cash
+    expect(buyDay!.portfolioValue).toBe(2000);
+    expect(buyDay!.portfolioReturn).toBe(0);
+
+    const last = result[result.length - 1];
+    expect(last.portfolioValue).toBe(1380 + 700);
+  });
+
+  it('adds sale proceeds and dividends to cash', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 5, price: 135, type: 'sell', id: 'a2' }),
+    ];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1300, type: 'deposit' },
+      { id: 'cf2', date: '2023-01-03', amount: 5, type: 'dividend', ticker: 'AAPL' },
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    expect(result.find(p => p.date === '2023-01-02')!.cashBalance).toBe(0);
+    expect(result.find(p => p.date === '2023-01-03')!.cashBalance).toBe(5);
+    // 5 + 5 * 135 from the sale
+    const last = result[result.length - 1];
+    expect(last.cashBalance).toBe(680);
+    expect(last.portfolioValue).toBe(5 * 138 + 680);
+  });
+
+  it('leaves cash at zero when the export has no deposits', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(result.every(p => p.cashBalance === 0)).toBe(true);
+  });
+
+  it('floors cash at zero when buys exceed recorded deposits', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1000, type: 'deposit' },
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    expect(result[0].cashBalance).toBe(0);
+    expect(result[0].portfolioValue).toBe(1300);
+  });
+
+  it('includes cash in the summary portfolio value', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' },
+    ];
+    const timeSeries = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+    const breakdown = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+    const result = calculateSummary(breakdown, cashFlows, trades, timeSeries);
+
+    expect(result.cashBalance).toBe(700);
+    expect(result.totalPortfolioValue).toBe(2080);
+    // Compared with the whole $2000 deposit invested in SPY
+    expect(result.totalCounterfactualValue).toBeCloseTo((2000 / 380) * 388, 1);
+  });
+});
+
+// ============================================================
+// Trading fees and the benchmark expense ratio
+// ============================================================
+
+describe('fees', () => {
+  it('takes trade fees and account fees out of cash', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130, fees: 5 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' },
+      { id: 'cf2', date: '2023-01-04', amount: 2, type: 'fee', ticker: 'AAPL' },
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    expect(result.find(p => p.date === '2023-01-02')!.cashBalance).toBe(695);
+    const last = result[result.length - 1];
+    expect(last.cashBalance).toBe(693);
+    expect(last.portfolioValue).toBe(1380 + 693);
+  });
+
+  it('funds the benchmark with the fees too when there are no deposits', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130, fees: 7.6 })];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    // $1307.60 spent, so the fees count against the portfolio
+    expect(result[0].totalDeposits).toBe(1307.6);
+    expect(result[0].portfolioReturn).toBeLessThan(0);
+    expect(result[0].counterfactualValues.SPY).toBe(1307.6);
+  });
+
+  it('nets sell fees out of the proceeds', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 5, price: 135, type: 'sell', fees: 10, id: 'a2' }),
+    ];
+    const cashFlows: CashFlow[] = [{ id: 'cf1', date: '2023-01-02', amount: 1300, type: 'deposit' }];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    expect(result[result.length - 1].cashBalance).toBe(5 * 135 - 10);
+  });
+
+  it('erodes every benchmark counterfactual by the expense ratio', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const free = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+    const charged = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices }, [], {}, undefined, { expenseRatio: 10 },
+    );
+
+    const last = charged.length - 1;
+    expect(charged[0].counterfactualValues.SPY).toBe(free[0].counterfactualValues.SPY);
+    expect(charged[last].counterfactualValues.SPY).toBeCloseTo(free[last].counterfactualValues.SPY * Math.pow(0.9, 4 / 365), 1);
+    expect(charged[last].lumpSumValue).toBeLessThan(free[last].lumpSumValue!);
+    // The portfolio itself is untouched
+    expect(charged[last].portfolioValue).toBe(free[last].portfolioValue);
+  });
+
+  it('reports the fees and the expense ratio in the summary', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130, fees: 5 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 5, price: 135, type: 'sell', fees: 3, id: 'a2' }),
+    ];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' },
+      { id: 'cf2', date: '2023-01-04', amount: 0.5, type: 'fee', ticker: 'AAPL' },
+    ];
+    const options = { expenseRatio: 0.09 };
+    const timeSeries = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows, {}, undefined, options,
+    );
+    const breakdown = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+    const result = calculateSummary(breakdown, cashFlows, trades, timeSeries, options);
+
+    expect(result.totalFees).toBe(8.5);
+    expect(result.expenseRatio).toBe(0.09);
+    expect(result.cashBalance).toBe(2000 - 1305 + 675 - 3 - 0.5);
+  });
+
+  it('lowers the return rather than the cost basis with account fees', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const deposit: CashFlow = { id: 'cf1', date: '2023-01-02', amount: 1500, type: 'deposit' };
+    const fee: CashFlow = { id: 'cf2', date: '2023-01-03', amount: 20, type: 'fee', ticker: 'AAPL' };
+    const prices = { AAPL: aaplPrices };
+    const breakdown = calculateStockBreakdown(trades, prices, { SPY: spyPrices });
+
+    const summarize = (cashFlows: CashFlow[]) => calculateSummary(
+      breakdown, cashFlows, trades, calculatePortfolioTimeSeries(trades, prices, { SPY: spyPrices }, cashFlows),
+    );
+    const withoutFee = summarize([deposit]);
+    const withFee = summarize([deposit, fee]);
+
+    expect(withFee.totalCostBasis).toBe(1500);
+    expect(withFee.totalPortfolioValue).toBe(withoutFee.totalPortfolioValue - 20);
+    expect(withFee.portfolioReturn).toBeCloseTo(withoutFee.portfolioReturn! - (20 / 1500) * 100, 2);
+  });
+
+  it('counts fees in the trade-based total invested', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130, fees: 5 })];
+    const breakdown = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(calculateSummary(breakdown, [], trades).totalCostBasis).toBe(1305);
+  });
+});
+
+// ============================================================
+// Dollar-cost-averaging counterfactual
+// ============================================================
+
+describe('dollar-cost averaging', () => {
+  it('invests the same total in the primary benchmark on the schedule', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1000, type: 'deposit' },
+      { id: 'cf2', date: '2023-01-04', amount: 1000, type: 'deposit' },
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    // Both deposits fall before the next monthly date, so all $2000 goes in on Jan 2
+    const last = result[result.length - 1];
+    expect(last.dcaValue).toBeCloseTo((2000 / 380) * 388, 1);
+    expect(last.counterfactualValues.SPY).toBeCloseTo((1000 / 380) * 388 + (1000 / 385) * 388, 1);
+  });
+
+  it('matches the deposit-based counterfactual for a single deposit', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [{ id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' }];
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows, {}, undefined, { dcaSchedule: 'biweekly' },
+    );
+
+    expect(result.every(p => p.dcaValue === p.counterfactualValues.SPY)).toBe(true);
+  });
+});
+
+describe('lump sum at the start', () => {
+  it('invests every deposit in the primary benchmark on the first trade date', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 10, price: 132 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1500, type: 'deposit' },
+      { id: 'cf2', date: '2023-01-05', amount: 500, type: 'deposit' },
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, cashFlows);
+
+    // Nothing before the first trade, then $2000 of SPY at 382
+    expect(result.find(p => p.date === '2023-01-02')!.lumpSumValue).toBe(0);
+    const last = result[result.length - 1];
+    expect(last.lumpSumValue).toBeCloseTo((2000 / 382) * 388, 1);
+  });
+
+  it('uses net trade amounts when the export has no deposits', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 4, price: 135, id: 'a2' }),
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(result[result.length - 1].lumpSumValue).toBeCloseTo((1840 / 380) * 388, 1);
+  });
+
+  it('leaves out both timing alternatives when sells took out more than buys put in', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 9, price: 150, type: 'sell', id: 'a2' }),
+    ];
+    const result = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(result.length).toBeGreaterThan(0);
+    expect(result.every(p => p.dcaValue === null && p.lumpSumValue === null)).toBe(true);
+  });
+});
+
+// ============================================================
+// Buy-and-hold counterfactual
+// ============================================================
+
+describe('buy and hold', () => {
+  const spySeries = { SPY: spyPrices };
+
+  it('follows the portfolio until the freeze date, then ignores later trades', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell', id: 'a2' }),
+    ];
+    const cashFlows: CashFlow[] = [{ id: 'cf1', date: '2023-01-02', amount: 2000, type: 'deposit' }];
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, spySeries, cashFlows, {}, undefined, { freezeDate: '2023-01-03' },
+    );
+
+    expect(result[0].buyAndHoldValue).toBe(result[0].portfolioValue);
+    // Still 10 AAPL and $700 cash, while the real portfolio sold for cash
+    const last = result[result.length - 1];
+    expect(last.buyAndHoldValue).toBe(10 * 138 + 700);
+    expect(last.portfolioValue).toBe(2050);
+  });
+
+  it('spreads later deposits over the frozen holdings', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2023-01-02', amount: 1300, type: 'deposit' },
+      { id: 'cf2', date: '2023-01-04', amount: 1350, type: 'deposit' },
+    ];
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, spySeries, cashFlows, {}, undefined, { freezeDate: '2023-01-02' },
+    );
+
+    // $1350 buys another 10 AAPL at 135
+    const last = result[result.length - 1];
+    expect(last.buyAndHoldValue).toBe(20 * 138);
+    expect(last.portfolioValue).toBe(10 * 138 + 1350);
+  });
+
+  it('applies splits to the frozen holdings', () => {
+    const splits: Record<string, StockSplit[]> = {
+      AAPL: [{ ticker: 'AAPL', date: '2023-01-04', splitFactor: 2 }],
+    };
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 260 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 0, id: 'a-split' }),
+    ];
+    const result = calculatePortfolioTimeSeries(
+      trades, { AAPL: aaplPrices }, spySeries, [], splits, undefined, { freezeDate: '2023-01-02' },
+    );
+
+    const last = result[result.length - 1];
+    expect(last.buyAndHoldValue).toBe(20 * 138);
+    expect(last.buyAndHoldValue).toBe(last.portfolioValue);
+  });
+
+  it('freezes at the end of the first month by default', () => {
+    expect(getDefaultFreezeDate([
+      makeTrade({ ticker: 'AAPL', date: '2024-02-10', shares: 1 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-03-15', shares: 1 }),
+    ])).toBe('2023-03-31');
+    expect(getDefaultFreezeDate([makeTrade({ ticker: 'AAPL', date: '2024-02-10', shares: 1 })])).toBe('2024-02-29');
   });
 });
 
@@ -256,7 +707,7 @@ describe('stock split handling in portfolio value', () => {
     const trades = [makeTrade({ ticker: 'XYZ', date: '2023-01-02', shares: 10, price: 100 })];
 
     const result = calculatePortfolioTimeSeries(
-      trades, { XYZ: xyzPrices }, spyPrices.slice(0, 4), [], splits,
+      trades, { XYZ: xyzPrices }, { SPY: spyPrices.slice(0, 4) }, [], splits,
     );
 
     // Pre-split: unadjusted price = 50 * 2 = 100. Value = 10 * 100 = 1000.
@@ -276,20 +727,154 @@ describe('stock split handling in portfolio value', () => {
 describe('calculateStockBreakdown', () => {
   it('computes current value from latest price', () => {
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
-    const result = calculateStockBreakdown(trades, { AAPL: aaplPrices }, spyPrices);
+    const result = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
 
     expect(result).toHaveLength(1);
     expect(result[0].currentPrice).toBe(138); // latest AAPL price
     expect(result[0].currentValue).toBe(1380); // 10 * 138
   });
 
-  it('excludes fully sold positions', () => {
+  it('lists fully sold positions as closed with their realized gain', () => {
     const trades = [
       makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
       makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell', id: 'a2' }),
     ];
-    const result = calculateStockBreakdown(trades, { AAPL: aaplPrices }, spyPrices);
-    expect(result).toHaveLength(0);
+    const result = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].status).toBe('closed');
+    expect(result[0].closedDate).toBe('2023-01-04');
+    expect(result[0].shares).toBe(0);
+    expect(result[0].currentValue).toBe(0);
+    expect(result[0].buyPrice).toBe(130);
+    expect(result[0].realizedGain).toBe(50);
+    expect(result[0].gain).toBe(50);
+    expect(result[0].lots).toEqual([]);
+  });
+
+  it('compares a closed position with the matching benchmark purchase at the sale and today', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell', id: 'a2' }),
+    ];
+    const [closed] = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    // $1300 of SPY at 380 on the buy date
+    const spyShares = 1300 / 380;
+    expect(closed.benchmarkValueAtClose).toBeCloseTo(spyShares * 385, 1);
+    expect(closed.benchmarkCurrentValue).toBeCloseTo(spyShares * 388, 1);
+    expect(closed.benchmarkGain).toBeCloseTo(spyShares * 385 - 1300, 1);
+    expect(closed.difference).toBeCloseTo(50 - (spyShares * 385 - 1300), 1);
+  });
+
+  it('keeps closed positions even without price data for the ticker', () => {
+    const trades = [
+      makeTrade({ ticker: 'TVIX', date: '2023-01-02', shares: 10, price: 100 }),
+      makeTrade({ ticker: 'TVIX', date: '2023-01-04', shares: 10, price: 40, type: 'sell', id: 't2' }),
+    ];
+    const result = calculateStockBreakdown(trades, {}, { SPY: spyPrices });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].status).toBe('closed');
+    expect(result[0].realizedGain).toBe(-600);
+  });
+
+  it('breaks an open position into its buy lots against the benchmark bought the same day', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 5, price: 136, id: 'a2' }),
+    ];
+    const [position] = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(position.lots.map(l => [l.id, l.acquiredDate, l.shares, l.costPerShare])).toEqual([
+      ['AAPL-2023-01-02', '2023-01-02', 10, 130],
+      ['a2', '2023-01-04', 5, 136],
+    ]);
+    // 10 * 138 and $1300 of SPY at 380, now 388
+    expect(position.lots[0].currentValue).toBe(1380);
+    expect(position.lots[0].benchmarkValue).toBeCloseTo((1300 / 380) * 388, 1);
+    // 5 * 138 and $680 of SPY at 385, now 388
+    expect(position.lots[1].gain).toBe(10);
+    expect(position.lots[1].benchmarkValue).toBeCloseTo((680 / 385) * 388, 1);
+  });
+
+  it('lists only the shares still held in each lot', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 10, price: 132, id: 'a2' }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-05', shares: 15, price: 133, type: 'sell', id: 'a3' }),
+    ];
+    const [position] = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(position.lots).toHaveLength(1);
+    expect(position.lots[0].id).toBe('a2');
+    expect(position.lots[0].shares).toBe(5);
+  });
+
+  it('marks positions still held as open', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const [open] = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(open.status).toBe('open');
+    expect(open.closedDate).toBeNull();
+    expect(open.benchmarkValueAtClose).toBeNull();
+  });
+
+  describe('sector comparison', () => {
+    const xlkPrices: StockPrice[] = [
+      { date: '2023-01-02', price: 125 },
+      { date: '2023-01-04', price: 130 },
+      { date: '2023-01-06', price: 140 },
+    ];
+
+    it('compares a holding with the same trades in its sector ETF', () => {
+      const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+      const [position] = calculateStockBreakdown(
+        trades, { AAPL: aaplPrices }, { SPY: spyPrices }, undefined, { sectorPrices: { XLK: xlkPrices } },
+      );
+
+      // $1300 of XLK at 125 is 10.4 shares, now worth 10.4 * 140
+      expect(position.sector).toEqual({
+        name: 'Technology',
+        etf: 'XLK',
+        value: 1456,
+        gain: 156,
+        difference: 80 - 156,
+      });
+    });
+
+    it('values a closed position against its sector at the sale', () => {
+      const trades = [
+        makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+        makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell', id: 'a2' }),
+      ];
+      const [closed] = calculateStockBreakdown(
+        trades, { AAPL: aaplPrices }, { SPY: spyPrices }, undefined, { sectorPrices: { XLK: xlkPrices } },
+      );
+
+      // 10.4 XLK shares at 130 on the sell date
+      expect(closed.sector?.value).toBe(1352);
+      expect(closed.sector?.difference).toBe(50 - 52);
+    });
+
+    it('is left out when the sector is unknown or has no prices from the first buy', () => {
+      const trades = [
+        makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+        makeTrade({ ticker: 'ZZZZ', date: '2023-01-02', shares: 10, price: 130, id: 'z1' }),
+      ];
+      const lateXlk = xlkPrices.slice(1);
+
+      const withoutPrices = calculateStockBreakdown(
+        trades, { AAPL: aaplPrices, ZZZZ: aaplPrices }, { SPY: spyPrices },
+      );
+      const withLatePrices = calculateStockBreakdown(
+        trades, { AAPL: aaplPrices, ZZZZ: aaplPrices }, { SPY: spyPrices }, undefined,
+        { sectorPrices: { XLK: lateXlk } },
+      );
+
+      expect(withoutPrices.map(p => p.sector)).toEqual([null, null]);
+      expect(withLatePrices.map(p => p.sector)).toEqual([null, null]);
+    });
   });
 
   it('sorts by difference descending (best performer first)', () => {
@@ -302,10 +887,143 @@ describe('calculateStockBreakdown', () => {
       makeTrade({ ticker: 'GOOG', date: '2023-01-02', shares: 10, price: 90, id: 'g1' }),
     ];
     const result = calculateStockBreakdown(
-      trades, { AAPL: aaplPrices, GOOG: googPrices }, spyPrices,
+      trades, { AAPL: aaplPrices, GOOG: googPrices }, { SPY: spyPrices },
     );
     expect(result[0].difference).toBeGreaterThanOrEqual(result[1].difference);
   });
+
+  it('compares against whichever benchmark prices are passed', () => {
+    const qqqPrices: StockPrice[] = [
+      { date: '2023-01-02', price: 260 },
+      { date: '2023-01-06', price: 273 },
+    ];
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const result = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { QQQ: qqqPrices });
+
+    // 1300 / 260 = 5 QQQ shares, worth 5 * 273 = 1365
+    expect(result[0].benchmarkShares).toBe(5);
+    expect(result[0].benchmarkCurrentValue).toBe(1365);
+    expect(result[0].benchmarkGain).toBe(65);
+  });
+
+  it('reports the average cost of the lots still held after a partial sell', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 10, price: 132, id: 'a2' }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-05', shares: 10, price: 133, type: 'sell', id: 'a3' }),
+    ];
+    const result = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    // FIFO sells the $130 lot, leaving the $132 lot
+    expect(result[0].shares).toBe(10);
+    expect(result[0].buyPrice).toBe(132);
+    expect(result[0].realizedGain).toBe(30);
+    expect(result[0].unrealizedGain).toBe(60);
+    expect(result[0].gain).toBe(90);
+  });
+
+  it('follows the chosen lot method', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 10, price: 132, id: 'a2' }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-05', shares: 10, price: 133, type: 'sell', id: 'a3' }),
+    ];
+    const result = calculateStockBreakdown(
+      trades, { AAPL: aaplPrices }, { SPY: spyPrices }, undefined, { lotMethod: 'lifo' },
+    );
+
+    expect(result[0].buyPrice).toBe(130);
+    expect(result[0].realizedGain).toBe(10);
+    // Same total gain either way; only the split between realized and unrealized moves
+    expect(result[0].gain).toBe(90);
+  });
+});
+
+// ============================================================
+// calculateSellRegret
+// ============================================================
+
+describe('calculateSellRegret', () => {
+  it('compares the sold shares today with the proceeds in the benchmark', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell', id: 'a2' }),
+    ];
+    const [sell] = calculateSellRegret(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    // 10 AAPL at 138 today vs $1350 of SPY bought at 385, now 388
+    const redeployed = (1350 / 385) * 388;
+    expect(sell).toEqual({
+      tradeId: 'a2',
+      ticker: 'AAPL',
+      date: '2023-01-04',
+      shares: 10,
+      price: 135,
+      proceeds: 1350,
+      heldValue: 1380,
+      redeployedValue: expect.closeTo(redeployed, 2),
+      regret: expect.closeTo(1380 - redeployed, 2),
+    });
+  });
+
+  it('lists only sells, oldest first', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 20, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-05', shares: 5, price: 133, type: 'sell', id: 'a3' }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-03', shares: 5, price: 132, type: 'sell', id: 'a2' }),
+    ];
+    const result = calculateSellRegret(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+
+    expect(result.map(s => s.tradeId)).toEqual(['a2', 'a3']);
+  });
+
+  it('counts the shares a later split would have turned the sold shares into', () => {
+    const splits: Record<string, StockSplit[]> = {
+      AAPL: [{ ticker: 'AAPL', date: '2023-01-05', splitFactor: 2 }],
+    };
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 260 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 270, type: 'sell', id: 'a2' }),
+    ];
+    const [sell] = calculateSellRegret(trades, { AAPL: aaplPrices }, { SPY: spyPrices }, splits);
+
+    // 10 shares before the 2:1 split are 20 shares at today's 138
+    expect(sell.heldValue).toBe(2760);
+  });
+
+  it('grows the sold shares with dividends when the benchmark earns them', () => {
+    // AAPL paid a dividend after the sale: the adjusted close rose 2% more than the close
+    const pricesWithDividend: StockPrice[] = [
+      { date: '2023-01-04', price: 135, close: 135, adjClose: 135 },
+      { date: '2023-01-06', price: 138 * 1.02, close: 138, adjClose: 138 * 1.02 },
+    ];
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'AAPL', date: '2023-01-04', shares: 10, price: 135, type: 'sell', id: 'a2' }),
+    ];
+    const prices = { AAPL: pricesWithDividend };
+
+    const [total] = calculateSellRegret(trades, prices, { SPY: spyPrices }, {}, undefined, { returnBasis: 'total' });
+    expect(total.heldValue).toBeCloseTo(1380 * 1.02, 2);
+
+    const [drip] = calculateSellRegret(trades, prices, { SPY: spyPrices }, {}, undefined, { reinvestDividends: true });
+    expect(drip.heldValue).toBeCloseTo(1380 * 1.02, 2);
+
+    const [priceOnly] = calculateSellRegret(trades, prices, { SPY: spyPrices });
+    expect(priceOnly.heldValue).toBe(1380);
+  });
+
+  it('leaves the held value out when the ticker has no prices', () => {
+    const trades = [
+      makeTrade({ ticker: 'TVIX', date: '2023-01-02', shares: 10, price: 100 }),
+      makeTrade({ ticker: 'TVIX', date: '2023-01-04', shares: 10, price: 40, type: 'sell', id: 't2' }),
+    ];
+    const [sell] = calculateSellRegret(trades, {}, { SPY: spyPrices });
+
+    expect(sell.heldValue).toBeNull();
+    expect(sell.regret).toBeNull();
+    expect(sell.redeployedValue).toBeCloseTo((400 / 385) * 388, 1);
+  });
 });
 
 // ============================================================
@@ -324,14 +1042,18 @@ describe('calculateSummary', () => {
   it('computes total portfolio value from breakdown', () => {
     const breakdown: StockBreakdownData[] = [
       {
-        ticker: 'AAPL', shares: 10, buyDate: '2023-01-02', buyPrice: 130,
-        currentPrice: 150, currentValue: 1500, spyShares: 3, spyCurrentValue: 1200,
-        gain: 200, spyGain: -100, difference: 300,
+        ticker: 'AAPL', status: 'open', shares: 10, buyDate: '2023-01-02', buyPrice: 130,
+        currentPrice: 150, currentPriceDate: '2023-01-03', currentValue: 1500, benchmarkShares: 3, benchmarkCurrentValue: 1200, benchmarkValues: { SPY: 1200 },
+        benchmarkValueAtClose: null, closedDate: null,
+        costBasis: 1300, unrealizedGain: 200, realizedGain: 0,
+        gain: 200, benchmarkGain: -100, difference: 300, lots: [], sector: null,
       },
       {
-        ticker: 'GOOG', shares: 5, buyDate: '2023-01-02', buyPrice: 90,
-        currentPrice: 100, currentValue: 500, spyShares: 1, spyCurrentValue: 400,
-        gain: 50, spyGain: -50, difference: 100,
+        ticker: 'GOOG', status: 'open', shares: 5, buyDate: '2023-01-02', buyPrice: 90,
+        currentPrice: 100, currentPriceDate: '2023-01-03', currentValue: 500, benchmarkShares: 1, benchmarkCurrentValue: 400, benchmarkValues: { SPY: 400 },
+        benchmarkValueAtClose: null, closedDate: null,
+        costBasis: 450, unrealizedGain: 50, realizedGain: 0,
+        gain: 50, benchmarkGain: -50, difference: 100, lots: [], sector: null,
       },
     ];
     const result = calculateSummary(breakdown);
@@ -339,17 +1061,93 @@ describe('calculateSummary', () => {
     expect(result.totalCounterfactualValue).toBe(1600);
   });
 
+  it('falls back to the positions when the time series ends before the latest prices', () => {
+    const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 })];
+    const breakdown = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+    const timeSeries = calculatePortfolioTimeSeries(trades, { AAPL: aaplPrices }, { SPY: spyPrices.slice(0, 2) });
+    const result = calculateSummary(breakdown, [], trades, timeSeries);
+
+    expect(result.totalPortfolioValue).toBe(1380); // 10 * 138 on 2023-01-06
+  });
+
+  it('annualizes returns over the time series', () => {
+    const breakdown: StockBreakdownData[] = [
+      {
+        ticker: 'AAPL', status: 'open', shares: 10, buyDate: '2022-01-03', buyPrice: 100,
+        currentPrice: 121, currentPriceDate: '2023-01-03', currentValue: 1210, benchmarkShares: 2, benchmarkCurrentValue: 1100, benchmarkValues: { SPY: 1100 },
+        benchmarkValueAtClose: null, closedDate: null,
+        costBasis: 1000, unrealizedGain: 210, realizedGain: 0,
+        gain: 210, benchmarkGain: 100, difference: 110, lots: [], sector: null,
+      },
+    ];
+    const cashFlows: CashFlow[] = [
+      { id: 'cf1', date: '2022-01-03', amount: 1000, type: 'deposit' },
+    ];
+    const timeSeries: PortfolioDataPoint[] = [
+      {
+        date: '2022-01-03', portfolioValue: 1000, cashBalance: 0, buyAndHoldValue: 0, counterfactualValues: { SPY: 1000 }, dcaValue: 0, lumpSumValue: 0, totalDeposits: 1000,
+        portfolioReturn: 0, counterfactualReturns: { SPY: 0 },
+        portfolioTimeWeightedReturn: 0, counterfactualTimeWeightedReturns: { SPY: 0 },
+      },
+      {
+        date: '2023-01-03', portfolioValue: 1210, cashBalance: 0, buyAndHoldValue: 0, counterfactualValues: { SPY: 1100 }, dcaValue: 0, lumpSumValue: 0, totalDeposits: 1000,
+        portfolioReturn: 21, counterfactualReturns: { SPY: 10 },
+        portfolioTimeWeightedReturn: 21, counterfactualTimeWeightedReturns: { SPY: 10 },
+      },
+    ];
+    const result = calculateSummary(breakdown, cashFlows, [], timeSeries);
+
+    // One deposit held exactly a year: every annualized figure equals the simple return
+    expect(result.portfolioXirr).toBeCloseTo(21, 1);
+    expect(result.counterfactualXirr).toBeCloseTo(10, 1);
+    expect(result.portfolioCagr).toBeCloseTo(21, 1);
+    expect(result.counterfactualCagr).toBeCloseTo(10, 1);
+  });
+
+  it('leaves annualized returns empty without a time series', () => {
+    const breakdown: StockBreakdownData[] = [
+      {
+        ticker: 'AAPL', status: 'open', shares: 10, buyDate: '2023-01-02', buyPrice: 130,
+        currentPrice: 150, currentPriceDate: '2023-01-03', currentValue: 1500, benchmarkShares: 3, benchmarkCurrentValue: 1200, benchmarkValues: { SPY: 1200 },
+        benchmarkValueAtClose: null, closedDate: null,
+        costBasis: 1300, unrealizedGain: 200, realizedGain: 0,
+        gain: 200, benchmarkGain: -100, difference: 300, lots: [], sector: null,
+      },
+    ];
+    const result = calculateSummary(breakdown);
+    expect(result.portfolioXirr).toBeNull();
+    expect(result.portfolioCagr).toBeNull();
+  });
+
+  it('includes realized gains from positions that were sold off', () => {
+    const trades = [
+      makeTrade({ ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 130 }),
+      makeTrade({ ticker: 'GOOG', date: '2023-01-02', shares: 5, price: 90, id: 'g1' }),
+      makeTrade({ ticker: 'GOOG', date: '2023-01-04', shares: 5, price: 100, type: 'sell', id: 'g2' }),
+    ];
+    const breakdown = calculateStockBreakdown(trades, { AAPL: aaplPrices }, { SPY: spyPrices });
+    const result = calculateSummary(breakdown, [], trades);
+
+    expect(breakdown.find(b => b.ticker === 'GOOG')!.status).toBe('closed');
+    expect(result.realizedGain).toBe(50);
+    expect(result.unrealizedGain).toBe(80);
+  });
+
   it('identifies best and worst performers', () => {
     const breakdown: StockBreakdownData[] = [
       {
-        ticker: 'WINNER', shares: 1, buyDate: '2023-01-01', buyPrice: 100,
-        currentPrice: 200, currentValue: 200, spyShares: 1, spyCurrentValue: 120,
-        gain: 100, spyGain: 20, difference: 80,
+        ticker: 'WINNER', status: 'open', shares: 1, buyDate: '2023-01-01', buyPrice: 100,
+        currentPrice: 200, currentPriceDate: '2023-01-03', currentValue: 200, benchmarkShares: 1, benchmarkCurrentValue: 120, benchmarkValues: { SPY: 120 },
+        benchmarkValueAtClose: null, closedDate: null,
+        costBasis: 100, unrealizedGain: 100, realizedGain: 0,
+        gain: 100, benchmarkGain: 20, difference: 80, lots: [], sector: null,
       },
       {
-        ticker: 'LOSER', shares: 1, buyDate: '2023-01-01', buyPrice: 100,
-        currentPrice: 50, currentValue: 50, spyShares: 1, spyCurrentValue: 120,
-        gain: -50, spyGain: 20, difference: -70,
+        ticker: 'LOSER', status: 'open', shares: 1, buyDate: '2023-01-01', buyPrice: 100,
+        currentPrice: 50, currentPriceDate: '2023-01-03', currentValue: 50, benchmarkShares: 1, benchmarkCurrentValue: 120, benchmarkValues: { SPY: 120 },
+        benchmarkValueAtClose: null, closedDate: null,
+        costBasis: 100, unrealizedGain: -50, realizedGain: 0,
+        gain: -50, benchmarkGain: 20, difference: -70, lots: [], sector: null,
       },
     ];
     const result = calculateSummary(breakdown);
@@ -359,9 +1157,11 @@ describe('calculateSummary', () => {
 
   it('computes portfolio return percentage from trades', () => {
     const breakdown: StockBreakdownData[] = [{
-      ticker: 'AAPL', shares: 10, buyDate: '2023-01-01', buyPrice: 100,
-      currentPrice: 120, currentValue: 1200, spyShares: 5, spyCurrentValue: 1100,
-      gain: 200, spyGain: 100, difference: 100,
+      ticker: 'AAPL', status: 'open', shares: 10, buyDate: '2023-01-01', buyPrice: 100,
+      currentPrice: 120, currentPriceDate: '2023-01-03', currentValue: 1200, benchmarkShares: 5, benchmarkCurrentValue: 1100, benchmarkValues: { SPY: 1100 },
+      benchmarkValueAtClose: null, closedDate: null,
+      costBasis: 1000, unrealizedGain: 200, realizedGain: 0,
+      gain: 200, benchmarkGain: 100, difference: 100, lots: [], sector: null,
     }];
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-01', shares: 10, price: 100 })];
 
@@ -372,9 +1172,11 @@ describe('calculateSummary', () => {
 
   it('computes counterfactual return percentage from trades', () => {
     const breakdown: StockBreakdownData[] = [{
-      ticker: 'AAPL', shares: 10, buyDate: '2023-01-01', buyPrice: 100,
-      currentPrice: 120, currentValue: 1200, spyShares: 5, spyCurrentValue: 1100,
-      gain: 200, spyGain: 100, difference: 100,
+      ticker: 'AAPL', status: 'open', shares: 10, buyDate: '2023-01-01', buyPrice: 100,
+      currentPrice: 120, currentPriceDate: '2023-01-03', currentValue: 1200, benchmarkShares: 5, benchmarkCurrentValue: 1100, benchmarkValues: { SPY: 1100 },
+      benchmarkValueAtClose: null, closedDate: null,
+      costBasis: 1000, unrealizedGain: 200, realizedGain: 0,
+      gain: 200, benchmarkGain: 100, difference: 100, lots: [], sector: null,
     }];
     const trades = [makeTrade({ ticker: 'AAPL', date: '2023-01-01', shares: 10, price: 100 })];
 
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCalendarReturns } from '../utils/calendarReturns';
+import { makePoint } from './fixtures';
+
+describe('calculateCalendarReturns', () => {
+  it('returns nothing for an empty series', () => {
+    expect(calculateCalendarReturns([], 'SPY')).toEqual([]);
+  });
+
+  it('chains each month from the end of the previous month', () => {
+    const series = [
+      makePoint('2023-01-03', 1, 0),
+      makePoint('2023-01-31', 10, 5),
+      makePoint('2023-02-15', 5, 6),
+      makePoint('2023-02-28', 21, 10.25),
+    ];
+    const [year] = calculateCalendarReturns(series, 'SPY');
+
+    expect(year.year).toBe(2023);
+    expect(year.months[0]).toEqual({ portfolio: 10, benchmark: 5, difference: 5 });
+    // 1.21 / 1.10 and 1.1025 / 1.05
+    expect(year.months[1]).toEqual({ portfolio: 10, benchmark: 5, difference: 5 });
+    expect(year.months.slice(2)).toEqual(new Array(10).fill(null));
+    expect(year.annual).toEqual({ portfolio: 21, benchmark: 10.25, difference: 10.75 });
+  });
+
+  it('starts each year from the end of the previous one', () => {
+    const series = [
+      makePoint('2022-12-30', 20, 10),
+      makePoint('2023-01-31', 8, 21),
+      makePoint('2023-03-31', 32, 32),
+    ];
+    const [first, second] = calculateCalendarReturns(series, 'SPY');
+
+    expect(first.year).toBe(2022);
+    expect(first.annual.portfolio).toBe(20);
+    expect(second.year).toBe(2023);
+    // 1.08 / 1.2 = -10%, 1.21 / 1.1 = +10%
+    expect(second.months[0]).toEqual({ portfolio: -10, benchmark: 10, difference: -20 });
+    // 1.32 / 1.2 = +10%, 1.32 / 1.1 = +20%
+    expect(second.annual).toEqual({ portfolio: 10, benchmark: 20, difference: -10 });
+    expect(second.months[1]).toBeNull();
+  });
+
+  it('ignores deposits because it reads the time-weighted series', () => {
+    // Value doubles from a deposit, but the time-weighted return stays flat
+    const series = [
+      { ...makePoint('2023-01-31', 0, 0), portfolioValue: 1000 },
+      { ...makePoint('2023-02-28', 0, 0), portfolioValue: 2000 },
+    ];
+    const [year] = calculateCalendarReturns(series, 'SPY');
+    expect(year.months[1]!.portfolio).toBe(0);
+  });
+});
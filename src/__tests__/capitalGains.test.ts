@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { buildCapitalGainsReport, capitalGainsToCsv, getHoldingTerm } from '../utils/capitalGains';
+import type { RealizedLot } from '../types/TaxLot';
+
+function makeLot(overrides: Partial<RealizedLot> & { acquiredDate: string; soldDate: string }): RealizedLot {
+  const shares = overrides.shares ?? 10;
+  const costBasis = overrides.costBasis ?? shares * 100;
+  const proceeds = overrides.proceeds ?? shares * 120;
+  return {
+    lotId: `${overrides.ticker ?? 'AAPL'}-${overrides.acquiredDate}`,
+    ticker: 'AAPL',
+    shares,
+    costBasis,
+    proceeds,
+    gain: proceeds - costBasis,
+    ...overrides,
+  };
+}
+
+describe('getHoldingTerm', () => {
+  it('is short-term up to and including the one-year anniversary', () => {
+    expect(getHoldingTerm('2023-03-15', '2023-09-01')).toBe('short');
+    expect(getHoldingTerm('2023-03-15', '2024-03-15')).toBe('short');
+  });
+
+  it('is long-term from the day after the anniversary', () => {
+    expect(getHoldingTerm('2023-03-15', '2024-03-16')).toBe('long');
+  });
+
+  it('handles a leap-day purchase', () => {
+    // The anniversary of 2024-02-29 rolls over to 2025-03-01
+    expect(getHoldingTerm('2024-02-29', '2025-03-01')).toBe('short');
+    expect(getHoldingTerm('2024-02-29', '2025-03-02')).toBe('long');
+  });
+});
+
+describe('buildCapitalGainsReport', () => {
+  it('returns no years when nothing was sold', () => {
+    expect(buildCapitalGainsReport([])).toEqual([]);
+  });
+
+  it('groups sales by tax year, newest first', () => {
+    const report = buildCapitalGainsReport([
+      makeLot({ acquiredDate: '2021-01-04', soldDate: '2022-06-01' }),
+      makeLot({ acquiredDate: '2023-01-03', soldDate: '2023-12-29' }),
+      makeLot({ acquiredDate: '2021-01-04', soldDate: '2023-02-01', ticker: 'GOOG' }),
+    ]);
+
+    expect(report.map(y => y.year)).toEqual([2023, 2022]);
+    expect(report[0].rows.map(r => r.ticker)).toEqual(['GOOG', 'AAPL']);
+  });
+
+  it('splits the totals into short-term and long-term', () => {
+    const [year] = buildCapitalGainsReport([
+      makeLot({ acquiredDate: '2023-01-03', soldDate: '2023-06-01', proceeds: 1500, costBasis: 1000 }),
+      makeLot({ acquiredDate: '2023-02-01', soldDate: '2023-07-03', proceeds: 800, costBasis: 1000 }),
+      makeLot({ acquiredDate: '2020-01-02', soldDate: '2023-08-01', proceeds: 3000, costBasis: 1000 }),
+    ]);
+
+    expect(year.shortTerm).toEqual({ proceeds: 2300, costBasis: 2000, gain: 300 });
+    expect(year.longTerm).toEqual({ proceeds: 3000, costBasis: 1000, gain: 2000 });
+  });
+
+  it('records the holding period in days', () => {
+    const [year] = buildCapitalGainsReport([
+      makeLot({ acquiredDate: '2023-01-01', soldDate: '2023-03-01' }),
+    ]);
+    expect(year.rows[0].holdingDays).toBe(59);
+  });
+});
+
+describe('capitalGainsToCsv', () => {
+  it('writes one row per lot and a subtotal per term', () => {
+    const [year] = buildCapitalGainsReport([
+      makeLot({ acquiredDate: '2020-01-02', soldDate: '2023-08-01', proceeds: 3000, costBasis: 1000 }),
+      makeLot({ acquiredDate: '2023-01-03', soldDate: '2023-06-01', proceeds: 1500, costBasis: 1000 }),
+    ]);
+    const lines = capitalGainsToCsv(year).split('\n');
+
+    expect(lines[0]).toBe(
+      'Tax Year,Term,Ticker,Date Acquired,Date Sold,Holding Period (days),Shares,Proceeds,Cost Basis,Gain',
+    );
+    expect(lines.slice(1)).toEqual([
+      '2023,Short-term,AAPL,2023-01-03,2023-06-01,149,10,1500.00,1000.00,500.00',
+      '2023,Short-term total,,,,,,1500.00,1000.00,500.00',
+      '2023,Long-term,AAPL,2020-01-02,2023-08-01,1307,10,3000.00,1000.00,2000.00',
+      '2023,Long-term total,,,,,,3000.00,1000.00,2000.00',
+    ]);
+  });
+
+  it('rounds away float noise in fractional share counts', () => {
+    const [year] = buildCapitalGainsReport([
+      makeLot({ acquiredDate: '2023-01-03', soldDate: '2023-06-01', shares: 0.1 + 0.2, proceeds: 36, costBasis: 30 }),
+    ]);
+    const lines = capitalGainsToCsv(year).split('\n');
+
+    expect(lines[1]).toBe('2023,Short-term,AAPL,2023-01-03,2023-06-01,149,0.3,36.00,30.00,6.00');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildLumpSumContribution, buildScheduledContributions } from '../utils/contributionTiming';
+
+describe('buildScheduledContributions', () => {
+  it('splits the total evenly over monthly dates from the first to the last contribution', () => {
+    const result = buildScheduledContributions([
+      { date: '2023-01-15', amount: 1000 },
+      { date: '2023-04-20', amount: 2000 },
+    ], 'monthly');
+
+    expect(result).toEqual([
+      { date: '2023-01-15', amount: 750 },
+      { date: '2023-02-15', amount: 750 },
+      { date: '2023-03-15', amount: 750 },
+      { date: '2023-04-15', amount: 750 },
+    ]);
+  });
+
+  it('keeps month-end dates from drifting after a short month', () => {
+    const result = buildScheduledContributions([
+      { date: '2023-01-31', amount: 300 },
+      { date: '2023-03-31', amount: 0 },
+    ], 'monthly');
+
+    expect(result.map(c => c.date)).toEqual(['2023-01-31', '2023-02-28', '2023-03-31']);
+  });
+
+  it('steps every 14 days on a biweekly schedule', () => {
+    const result = buildScheduledContributions([
+      { date: '2023-12-20', amount: 600 },
+      { date: '2024-01-20', amount: 0 },
+    ], 'biweekly');
+
+    expect(result).toEqual([
+      { date: '2023-12-20', amount: 200 },
+      { date: '2024-01-03', amount: 200 },
+      { date: '2024-01-17', amount: 200 },
+    ]);
+  });
+
+  it('nets out withdrawals', () => {
+    const result = buildScheduledContributions([
+      { date: '2023-01-02', amount: 1000 },
+      { date: '2023-01-03', amount: -400 },
+    ], 'monthly');
+
+    expect(result).toEqual([{ date: '2023-01-02', amount: 600 }]);
+  });
+
+  it('is empty when nothing went in on balance', () => {
+    expect(buildScheduledContributions([], 'monthly')).toEqual([]);
+    expect(buildScheduledContributions([
+      { date: '2023-01-02', amount: 500 },
+      { date: '2023-02-02', amount: -500 },
+    ], 'monthly')).toEqual([]);
+  });
+});
+
+describe('buildLumpSumContribution', () => {
+  it('puts the net total in on the given date', () => {
+    expect(buildLumpSumContribution([
+      { date: '2023-01-02', amount: 1000 },
+      { date: '2023-06-01', amount: 2500 },
+      { date: '2023-09-01', amount: -500 },
+    ], '2023-01-05')).toEqual([{ date: '2023-01-05', amount: 3000 }]);
+  });
+
+  it('is empty when nothing went in on balance', () => {
+    expect(buildLumpSumContribution([], '2023-01-05')).toEqual([]);
+    expect(buildLumpSumContribution([{ date: '2023-01-02', amount: -100 }], '2023-01-05')).toEqual([]);
+  });
+});
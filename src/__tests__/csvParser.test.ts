@@ -144,6 +144,14 @@ AAPL,2023-01-15,10`;
     expect(parseCSV(csv).trades[0].type).toBe('buy');
   });
 
+  it('parses an optional fees column into the trade and its deposit', () => {
+    const csv = `ticker,date,shares,price,fees
+AAPL,2023-01-15,10,150,1.50`;
+    const result = parseCSV(csv);
+    expect(result.trades[0].fees).toBe(1.5);
+    expect(result.cashFlows[0].amount).toBe(1501.5);
+  });
+
   it('parses sell type', () => {
     const csv = `ticker,date,shares,price,type
 AAPL,2023-01-15,10,150,sell`;
@@ -184,6 +192,22 @@ AAPL,2023-01-15,10`;
     expect(parseCSV(csv).cashFlows).toHaveLength(0);
   });
 
+  it('links a sell to the buy named in the lot column', () => {
+    const csv = `ticker,date,shares,price,type,lot
+AAPL,2023-01-15,10,150,buy,
+AAPL,2023-02-15,10,140,buy,
+AAPL,2023-03-15,5,160,sell,2023-02-15`;
+    const { trades } = parseCSV(csv);
+    expect(trades[2].lotId).toBe(trades[1].id);
+  });
+
+  it('leaves lotId unset when the lot date matches no buy', () => {
+    const csv = `ticker,date,shares,price,type,lot
+AAPL,2023-01-15,10,150,buy,
+AAPL,2023-03-15,5,160,sell,2023-02-15`;
+    expect(parseCSV(csv).trades[1].lotId).toBeUndefined();
+  });
+
   it('leaves price undefined when column is empty', () => {
     const csv = `ticker,date,shares,price
 NVDA,2023-04-05,15,`;
@@ -244,6 +268,15 @@ describe('Robinhood format', () => {
 01/15/2022,01/15/2022,01/18/2022,FB,Facebook Inc,Buy,10,$300.00,"($3,000.00)"`;
     expect(parseCSV(csv).trades[0].ticker).toBe('META');
   });
+
+  it('parses ADR fees as fee cash flows', () => {
+    const csv = `Activity Date,Process Date,Settle Date,Instrument,Description,Trans Code,Quantity,Price,Amount
+03/20/2023,03/20/2023,03/20/2023,TSM,ADR Fee,AFEE,,,($0.40)`;
+    const cf = parseCSV(csv).cashFlows[0];
+    expect(cf.type).toBe('fee');
+    expect(cf.amount).toBe(0.4);
+    expect(cf.ticker).toBe('TSM');
+  });
 });
 
 // ============================================================
@@ -275,6 +308,20 @@ describe('Schwab format', () => {
     expect(result.cashFlows[0].amount).toBe(25000); // 100 * 250
   });
 
+  it('parses Fees & Comm into the trade and its deposit', () => {
+    const csv = `Date,Action,Symbol,Description,Quantity,Price,Fees & Comm,Amount
+02/20/2023,Reinvest Shares,MSFT,"Reinvest",5,$260.00,$1.25,"$1,301.25"`;
+    const result = parseCSV(csv);
+    expect(result.trades[0].fees).toBe(1.25);
+    expect(result.cashFlows[0].amount).toBe(1301.25); // 5 * 260 + 1.25
+  });
+
+  it('leaves fees off the trade when Fees & Comm is zero', () => {
+    const csv = `Date,Action,Symbol,Description,Quantity,Price,Fees & Comm,Amount
+01/15/2023,Stock Plan Activity,MSFT,"Vest",100,$250.00,$0.00,"$25,000.00"`;
+    expect(parseCSV(csv).trades[0].fees).toBeUndefined();
+  });
+
   it('emits a vest placeholder when price is missing', () => {
     const csv = `Date,Action,Symbol,Description,Quantity,Price,Fees & Comm,Amount
 01/15/2023,Stock Plan Activity,MSFT,"Vest",100,,$0.00,`;
@@ -316,6 +363,15 @@ describe('Fidelity format', () => {
     expect(parseCSV(csv).trades).toHaveLength(0);
   });
 
+  it('adds commission and fees to the trade', () => {
+    const csv = `Run Date,Action,Symbol,Description,Type,Quantity,Price ($),Commission ($),Fees ($),Accrued Interest ($),Amount ($),Settlement Date
+01/15/2023,YOU SOLD APPLE INC,AAPL,,Cash,-10,150.00,4.95,0.03,,"1,495.02",01/18/2023
+01/16/2023,YOU BOUGHT APPLE INC,AAPL,,Cash,10,140.00,0,,,"(1,400.00)",01/19/2023`;
+    const [sell, buy] = parseCSV(csv).trades;
+    expect(sell.fees).toBeCloseTo(4.98, 10);
+    expect(buy.fees).toBeUndefined();
+  });
+
   it('parses EFT deposits', () => {
     const csv = `Run Date,Action,Symbol,Description,Type,Quantity,Price ($),Commission ($),Fees ($),Accrued Interest ($),Amount ($),Settlement Date
 01/10/2023,ELECTRONIC FUNDS TRANSFER RECEIVED,,CONTRIBUTION,Cash,,,,,,5000.00,01/10/2023`;
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, addMonths, subtractMonths } from '../utils/dates';
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2023-01-30', 14)).toBe('2023-02-13');
+    expect(addDays('2023-12-25', 14)).toBe('2024-01-08');
+  });
+});
+
+describe('addMonths', () => {
+  it('goes forward whole months', () => {
+    expect(addMonths('2023-01-15', 1)).toBe('2023-02-15');
+    expect(addMonths('2023-11-10', 3)).toBe('2024-02-10');
+  });
+
+  it('clamps to the end of a shorter month', () => {
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2023-01-31', 3)).toBe('2023-04-30');
+  });
+});
+
+describe('subtractMonths', () => {
+  it('goes back whole months', () => {
+    expect(subtractMonths('2023-08-15', 6)).toBe('2023-02-15');
+    expect(subtractMonths('2023-03-15', 36)).toBe('2020-03-15');
+  });
+
+  it('crosses year boundaries', () => {
+    expect(subtractMonths('2023-02-10', 3)).toBe('2022-11-10');
+  });
+
+  it('clamps to the end of a shorter month', () => {
+    expect(subtractMonths('2024-08-31', 6)).toBe('2024-02-29');
+    expect(subtractMonths('2023-08-31', 6)).toBe('2023-02-28');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDrawdowns,
+  calculateDrawdownReport,
+  calculateDrawdowns,
+  downsampleDrawdowns,
+} from '../utils/drawdown';
+import { makePoint } from './fixtures';
+import type { DrawdownPoint } from '../types/Drawdown';
+
+const dates = ['2023-01-02', '2023-01-10', '2023-01-20', '2023-02-01', '2023-02-15', '2023-03-01'];
+
+describe('calculateDrawdowns', () => {
+  it('measures each day against the running peak', () => {
+    // Growth: 1.0, 1.2, 0.9, 1.08, 1.2, 1.32
+    const drawdowns = calculateDrawdowns([0, 20, -10, 8, 20, 32]);
+    expect(drawdowns[0]).toBe(0);
+    expect(drawdowns[1]).toBe(0);
+    expect(drawdowns[2]).toBeCloseTo(-25);
+    expect(drawdowns[3]).toBeCloseTo(-10);
+    expect(drawdowns[4]).toBeCloseTo(0);
+    expect(drawdowns[5]).toBe(0);
+  });
+
+  it('counts a loss from the start as a drawdown', () => {
+    expect(calculateDrawdowns([-10])[0]).toBeCloseTo(-10);
+  });
+});
+
+describe('analyzeDrawdowns', () => {
+  it('finds the peak, trough and recovery of the deepest drawdown', () => {
+    const stats = analyzeDrawdowns(dates, [0, 20, -10, 8, 20, 32]);
+
+    expect(stats.maxDrawdown).toBeCloseTo(-25);
+    expect(stats.peakDate).toBe('2023-01-10');
+    expect(stats.troughDate).toBe('2023-01-20');
+    expect(stats.recoveryDate).toBe('2023-02-15');
+    expect(stats.durationDays).toBe(36);
+    expect(stats.recoveryDays).toBe(26);
+    expect(stats.longestDrawdownDays).toBe(36);
+    expect(stats.currentDrawdown).toBe(0);
+  });
+
+  it('runs the duration to the last day when not yet recovered', () => {
+    const stats = analyzeDrawdowns(dates, [0, 20, -10, 8, 10, 5]);
+
+    expect(stats.recoveryDate).toBeNull();
+    expect(stats.recoveryDays).toBeNull();
+    expect(stats.durationDays).toBe(50);
+    expect(stats.currentDrawdown).toBeCloseTo((1.05 / 1.2 - 1) * 100);
+  });
+
+  it('tracks the longest drawdown separately from the deepest', () => {
+    // A deep, quick dip followed by a shallow, long one
+    const stats = analyzeDrawdowns(dates, [0, -30, 0, -5, -4, -3]);
+
+    expect(stats.peakDate).toBe('2023-01-02');
+    expect(stats.troughDate).toBe('2023-01-10');
+    expect(stats.recoveryDate).toBe('2023-01-20');
+    expect(stats.durationDays).toBe(18);
+    expect(stats.longestDrawdownDays).toBe(40);
+  });
+
+  it('reports no drawdown for a series that only rises', () => {
+    const stats = analyzeDrawdowns(dates, [0, 1, 2, 3, 4, 5]);
+
+    expect(stats.maxDrawdown).toBe(0);
+    expect(stats.peakDate).toBeNull();
+    expect(stats.durationDays).toBeNull();
+    expect(stats.longestDrawdownDays).toBe(0);
+  });
+});
+
+describe('downsampleDrawdowns', () => {
+  it('keeps the deepest value in each bucket', () => {
+    const points: DrawdownPoint[] = Array.from({ length: 10 }, (_, i) => ({
+      date: `2023-01-${String(i + 1).padStart(2, '0')}`,
+      portfolio: i === 3 ? -40 : -1,
+      counterfactuals: { SPY: i === 8 ? -20 : 0 },
+    }));
+
+    const sampled = downsampleDrawdowns(points, 2);
+    expect(sampled).toHaveLength(2);
+    expect(sampled[0]).toEqual({ date: '2023-01-01', portfolio: -40, counterfactuals: { SPY: 0 } });
+    expect(sampled[1]).toEqual({ date: '2023-01-06', portfolio: -1, counterfactuals: { SPY: -20 } });
+  });
+
+  it('returns short series unchanged', () => {
+    const points: DrawdownPoint[] = [{ date: '2023-01-01', portfolio: 0, counterfactuals: {} }];
+    expect(downsampleDrawdowns(points, 500)).toBe(points);
+  });
+});
+
+describe('calculateDrawdownReport', () => {
+  it('analyzes the portfolio and each counterfactual', () => {
+    const series = dates.map((date, i) => makePoint(date, [0, 20, -10, 8, 20, 32][i], [0, 5, 0, 5, 10, 15][i]));
+    const report = calculateDrawdownReport(series, ['SPY'], 500);
+
+    expect(report.series).toHaveLength(6);
+    expect(report.series[2].portfolio).toBe(-25);
+    expect(report.portfolio.maxDrawdown).toBeCloseTo(-25);
+    expect(report.counterfactuals.SPY.maxDrawdown).toBeCloseTo((1 / 1.05 - 1) * 100);
+  });
+});
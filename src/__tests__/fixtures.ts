@@ -0,0 +1,28 @@
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+
+// A time series point against a single SPY benchmark, zero wherever the test doesn't say otherwise
+export function makeDataPoint(overrides: Partial<PortfolioDataPoint> & { date: string }): PortfolioDataPoint {
+  return {
+    portfolioValue: 0,
+    cashBalance: 0,
+    buyAndHoldValue: 0,
+    counterfactualValues: { SPY: 0 },
+    dcaValue: 0,
+    lumpSumValue: 0,
+    totalDeposits: 0,
+    portfolioReturn: 0,
+    counterfactualReturns: { SPY: 0 },
+    portfolioTimeWeightedReturn: 0,
+    counterfactualTimeWeightedReturns: { SPY: 0 },
+    ...overrides,
+  };
+}
+
+// Only the time-weighted returns matter to the risk, drawdown and return statistics
+export function makePoint(date: string, portfolioTwr: number, spyTwr: number): PortfolioDataPoint {
+  return makeDataPoint({
+    date,
+    portfolioTimeWeightedReturn: portfolioTwr,
+    counterfactualTimeWeightedReturns: { SPY: spyTwr },
+  });
+}
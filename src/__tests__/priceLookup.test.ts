@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { selectReturnBasis } from '../utils/priceLookup';
+import type { StockPrice } from '../types/StockPrice';
+
+// A $1 dividend paid between the two days
+const prices: StockPrice[] = [
+  { date: '2023-01-02', price: 100, close: 100, adjClose: 99 },
+  { date: '2023-01-03', price: 101, close: 101, adjClose: 101 },
+];
+
+describe('selectReturnBasis', () => {
+  it('prices at the raw close for price return', () => {
+    expect(selectReturnBasis(prices, 'price').map(p => p.price)).toEqual([100, 101]);
+  });
+
+  it('prices at the dividend-adjusted close for total return', () => {
+    expect(selectReturnBasis(prices, 'total').map(p => p.price)).toEqual([99, 101]);
+  });
+
+  it('keeps the existing price when the chosen close is missing', () => {
+    const legacy: StockPrice[] = [{ date: '2023-01-02', price: 42 }];
+    expect(selectReturnBasis(legacy, 'total')[0].price).toBe(42);
+    expect(selectReturnBasis(legacy, 'price')[0].price).toBe(42);
+  });
+
+  it('falls back to the close when there is no adjusted close', () => {
+    const closeOnly: StockPrice[] = [{ date: '2023-01-02', price: 0, close: 50 }];
+    expect(selectReturnBasis(closeOnly, 'total')[0].price).toBe(50);
+  });
+});
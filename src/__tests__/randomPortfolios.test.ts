@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRandomPortfolioRanking } from '../utils/randomPortfolios';
+import type { Trade } from '../types/Trade';
+import type { CashFlow } from '../types/CashFlow';
+import type { StockPrice } from '../types/StockPrice';
+import { makeDataPoint } from './fixtures';
+
+function prices(start: number, end: number): StockPrice[] {
+  return [
+    { date: '2023-01-02', price: start },
+    { date: '2023-06-30', price: end },
+  ];
+}
+
+// Ending values of $1,000 put in on the first day: 500, 1000, 1500, 2000
+const universe: Record<string, StockPrice[]> = {
+  HALF: prices(10, 5),
+  FLAT: prices(10, 10),
+  UP: prices(10, 15),
+  DOUBLE: prices(10, 20),
+};
+
+const trades: Trade[] = [
+  { id: '1', ticker: 'AAPL', date: '2023-01-02', shares: 10, price: 100, type: 'buy' },
+];
+
+const series = (endValue: number) => [
+  makeDataPoint({ date: '2023-01-02', portfolioValue: 1000, totalDeposits: 1000 }),
+  makeDataPoint({ date: '2023-06-30', portfolioValue: endValue, totalDeposits: 1000 }),
+];
+
+describe('calculateRandomPortfolioRanking', () => {
+  it('ranks a portfolio above every random pick at the 100th percentile', () => {
+    const result = calculateRandomPortfolioRanking(trades, [], universe, series(2500), { count: 100 });
+
+    expect(result?.percentile).toBe(100);
+    expect(result?.stocksPerPortfolio).toBe(1);
+    expect(result?.universeSize).toBe(4);
+    expect(result?.low).toBe(500);
+    expect(result?.high).toBe(2000);
+  });
+
+  it('ranks a portfolio below every random pick at the 0th percentile', () => {
+    const result = calculateRandomPortfolioRanking(trades, [], universe, series(400), { count: 100 });
+
+    expect(result?.percentile).toBe(0);
+  });
+
+  it('lands in the middle when only half the picks did better', () => {
+    const result = calculateRandomPortfolioRanking(trades, [], universe, series(1250), { count: 2000 });
+
+    expect(result?.percentile).toBeGreaterThan(45);
+    expect(result?.percentile).toBeLessThan(55);
+  });
+
+  it('picks as many distinct stocks as the portfolio traded, split equally', () => {
+    const twoStocks: Trade[] = [
+      ...trades,
+      { id: '2', ticker: 'MSFT', date: '2023-01-02', shares: 0, price: 200, type: 'buy' },
+    ];
+    const result = calculateRandomPortfolioRanking(twoStocks, [], universe, series(1000), { count: 200 });
+
+    expect(result?.stocksPerPortfolio).toBe(2);
+    // Two distinct stocks average out, so the extremes never show up
+    expect(result?.low).toBeGreaterThanOrEqual(750);
+    expect(result?.high).toBeLessThanOrEqual(1750);
+  });
+
+  it('funds the random portfolios with deposits when there are any', () => {
+    const deposits: CashFlow[] = [{ id: 'd1', date: '2023-01-02', amount: 2000, type: 'deposit' }];
+    const result = calculateRandomPortfolioRanking(trades, deposits, universe, series(1000), { count: 100 });
+
+    expect(result?.low).toBe(1000);
+    expect(result?.high).toBe(4000);
+  });
+
+  it('buys each contribution at its own date\'s price', () => {
+    const stepUp = {
+      STEP: [
+        { date: '2023-01-02', price: 10 },
+        { date: '2023-03-01', price: 20 },
+        { date: '2023-06-30', price: 40 },
+      ],
+    };
+    const deposits: CashFlow[] = [
+      { id: 'd1', date: '2023-01-02', amount: 1000, type: 'deposit' },
+      { id: 'd2', date: '2023-03-01', amount: 1000, type: 'deposit' },
+    ];
+    const result = calculateRandomPortfolioRanking(trades, deposits, stepUp, series(1000), { count: 10 });
+
+    // 100 shares, then 50 more, all worth $40 at the end
+    expect(result?.median).toBe(6000);
+  });
+
+  it('leaves out tickers that were not listed when the deposits started', () => {
+    const withLateListing = {
+      ...universe,
+      LATE: [{ date: '2023-03-01', price: 1 }, { date: '2023-06-30', price: 100 }],
+    };
+    const result = calculateRandomPortfolioRanking(trades, [], withLateListing, series(1000), { count: 100 });
+
+    expect(result?.universeSize).toBe(4);
+    expect(result?.high).toBe(2000);
+  });
+
+  it('gives the same ranking for the same seed', () => {
+    const a = calculateRandomPortfolioRanking(trades, [], universe, series(1250), { count: 50, seed: 3 });
+    const b = calculateRandomPortfolioRanking(trades, [], universe, series(1250), { count: 50, seed: 3 });
+
+    expect(a).toEqual(b);
+  });
+
+  it('counts every random portfolio in the histogram', () => {
+    const result = calculateRandomPortfolioRanking(trades, [], universe, series(1000), { count: 300, buckets: 6 });
+
+    expect(result?.histogram).toHaveLength(6);
+    expect(result?.histogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(300);
+  });
+
+  it('ranks on the last day the universe prices cover', () => {
+    const longer = [...series(1500), makeDataPoint({ date: '2023-09-29', portfolioValue: 9000, totalDeposits: 1000 })];
+    const result = calculateRandomPortfolioRanking(trades, [], universe, longer, { count: 100 });
+
+    expect(result?.asOf).toBe('2023-06-30');
+    expect(result?.portfolioValue).toBe(1500);
+  });
+
+  it('returns null without a universe or a series', () => {
+    expect(calculateRandomPortfolioRanking(trades, [], {}, series(1000))).toBeNull();
+    expect(calculateRandomPortfolioRanking(trades, [], universe, [])).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annualizeReturn,
+  bucketFlowsByDate,
+  calculateTimeWeightedReturns,
+  calculateXirr,
+} from '../utils/returns';
+
+describe('bucketFlowsByDate', () => {
+  const dates = ['2023-01-06', '2023-01-09', '2023-01-10'];
+
+  it('moves flows onto the next date in the calendar', () => {
+    const flows = bucketFlowsByDate([{ date: '2023-01-07', amount: 100 }], dates);
+    // Saturday's deposit lands on Monday
+    expect(flows).toEqual([0, 100, 0]);
+  });
+
+  it('puts early flows on the first date and drops flows after the last', () => {
+    const flows = bucketFlowsByDate(
+      [
+        { date: '2023-01-01', amount: 100 },
+        { date: '2023-01-06', amount: 50 },
+        { date: '2023-01-11', amount: 999 },
+      ],
+      dates,
+    );
+    expect(flows).toEqual([150, 0, 0]);
+  });
+});
+
+describe('calculateTimeWeightedReturns', () => {
+  it('ignores the size and timing of deposits', () => {
+    // +10%, flat while $1000 arrives, then +10% again
+    const values = [100, 110, 1110, 1221];
+    const flows = [100, 0, 1000, 0];
+    const returns = calculateTimeWeightedReturns(values, flows);
+
+    expect(returns[1]).toBeCloseTo(10, 6);
+    expect(returns[2]).toBeCloseTo(10, 6);
+    expect(returns[3]).toBeCloseTo(21, 6);
+  });
+
+  it('stays flat until money is invested', () => {
+    const returns = calculateTimeWeightedReturns([0, 0, 95], [0, 0, 100]);
+    // Bought for $100, closed the day worth $95
+    expect(returns[0]).toBe(0);
+    expect(returns[1]).toBe(0);
+    expect(returns[2]).toBeCloseTo(-5, 6);
+  });
+
+  it('counts withdrawals at the day they happen', () => {
+    // +20%, then half is withdrawn at no gain
+    const returns = calculateTimeWeightedReturns([100, 120, 60], [100, 0, -60]);
+    expect(returns[2]).toBeCloseTo(20, 6);
+  });
+});
+
+describe('calculateXirr', () => {
+  it('matches the simple return for one deposit held a year', () => {
+    const xirr = calculateXirr([{ date: '2022-01-01', amount: 1000 }], 1100, '2023-01-01');
+    expect(xirr).toBeCloseTo(10, 4);
+  });
+
+  it('weights each deposit by how long it was invested', () => {
+    // 1000 * 1.1^2 + 1000 * 1.1 = 2310
+    const xirr = calculateXirr(
+      [
+        { date: '2021-01-01', amount: 1000 },
+        { date: '2022-01-01', amount: 1000 },
+      ],
+      2310,
+      '2023-01-01',
+    );
+    expect(xirr).toBeCloseTo(10, 4);
+  });
+
+  it('handles losses', () => {
+    const xirr = calculateXirr([{ date: '2022-01-01', amount: 1000 }], 800, '2023-01-01');
+    expect(xirr).toBeCloseTo(-20, 4);
+  });
+
+  it('returns null when there is no time to annualize over', () => {
+    expect(calculateXirr([{ date: '2023-01-01', amount: 1000 }], 1100, '2023-01-01')).toBeNull();
+    expect(calculateXirr([], 1100, '2023-01-01')).toBeNull();
+  });
+});
+
+describe('annualizeReturn', () => {
+  it('converts a cumulative return into a yearly rate', () => {
+    expect(annualizeReturn(21, '2021-01-01', '2023-01-01')).toBeCloseTo(10, 4);
+  });
+
+  it('returns null for a zero-length period', () => {
+    expect(annualizeReturn(5, '2023-01-01', '2023-01-01')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRiskMetrics, calculateRiskReport, getDailyReturns } from '../utils/risk';
+import { makePoint } from './fixtures';
+
+describe('getDailyReturns', () => {
+  it('recovers each day\'s return from the cumulative series', () => {
+    const daily = getDailyReturns([0, 10, 21, 8.9]);
+    expect(daily).toHaveLength(3);
+    expect(daily[0]).toBeCloseTo(0.1);
+    expect(daily[1]).toBeCloseTo(0.1);
+    expect(daily[2]).toBeCloseTo(-0.1);
+  });
+
+  it('returns nothing for fewer than two points', () => {
+    expect(getDailyReturns([5])).toEqual([]);
+  });
+});
+
+describe('calculateRiskMetrics', () => {
+  const market = [0.01, -0.02, 0.015, -0.005, 0.02, -0.01];
+
+  it('returns nulls with fewer than two returns', () => {
+    expect(calculateRiskMetrics([0.01], [0.01])).toEqual({
+      volatility: null, sharpeRatio: null, sortinoRatio: null, beta: null, alpha: null,
+    });
+  });
+
+  it('annualizes volatility with the square root of 252', () => {
+    const returns = [0.01, -0.01, 0.01, -0.01];
+    // Sample standard deviation of +/-1% alternating is sqrt(4/3)%
+    const expected = Math.sqrt(4 / 3) * 0.01 * Math.sqrt(252) * 100;
+    expect(calculateRiskMetrics(returns, market.slice(0, 4), 0).volatility).toBeCloseTo(expected);
+  });
+
+  it('has a beta of 2 and no alpha for twice the market with no risk-free rate', () => {
+    const leveraged = market.map(r => r * 2);
+    const metrics = calculateRiskMetrics(leveraged, market, 0);
+    expect(metrics.beta).toBeCloseTo(2);
+    expect(metrics.alpha).toBeCloseTo(0);
+  });
+
+  it('reports a constant daily edge over the market as alpha', () => {
+    const edge = market.map(r => r + 0.001);
+    const metrics = calculateRiskMetrics(edge, market, 0);
+    expect(metrics.beta).toBeCloseTo(1);
+    expect(metrics.alpha).toBeCloseTo(0.001 * 252 * 100);
+  });
+
+  it('leaves ratios null when there is nothing to divide by', () => {
+    const flat = [0.001, 0.001, 0.001];
+    const metrics = calculateRiskMetrics(flat, flat, 0);
+    expect(metrics.volatility).toBe(0);
+    expect(metrics.sharpeRatio).toBeNull();
+    expect(metrics.sortinoRatio).toBeNull();
+    expect(metrics.beta).toBeNull();
+  });
+
+  it('scores a series with only upside moves higher on Sortino than Sharpe', () => {
+    const upside = [0.02, 0.001, 0.03, 0.0, 0.01, 0.002];
+    const metrics = calculateRiskMetrics(upside, market, 0.04);
+    expect(metrics.sortinoRatio!).toBeGreaterThan(metrics.sharpeRatio!);
+  });
+
+  it('subtracts the risk-free rate from the excess return', () => {
+    const returns = [0.01, -0.005, 0.012, -0.003];
+    const withoutRate = calculateRiskMetrics(returns, returns, 0);
+    const withRate = calculateRiskMetrics(returns, returns, 0.05);
+    expect(withRate.sharpeRatio!).toBeLessThan(withoutRate.sharpeRatio!);
+  });
+});
+
+describe('calculateRiskReport', () => {
+  it('measures the portfolio and counterfactual against the primary benchmark', () => {
+    const series = [
+      makePoint('2023-01-02', 0, 0),
+      makePoint('2023-01-03', 2, 1),
+      makePoint('2023-01-04', -2, -1),
+      makePoint('2023-01-05', 2, 1),
+      makePoint('2023-01-06', 0, 0),
+    ];
+    const report = calculateRiskReport(series, ['SPY'], 0);
+
+    expect(report.benchmark).toBe('SPY');
+    expect(report.riskFreeRate).toBe(0);
+    expect(report.counterfactuals.SPY.beta).toBeCloseTo(1);
+    expect(report.counterfactuals.SPY.alpha).toBeCloseTo(0);
+    expect(report.portfolio.beta!).toBeGreaterThan(1.5);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRollingReport,
+  calculateRollingReturns,
+  thinRollingReturns,
+} from '../utils/rollingReturns';
+import { makePoint } from './fixtures';
+import type { RollingReturnPoint, RollingWindow } from '../types/RollingReturns';
+
+const sixMonths: RollingWindow = { id: '6m', label: '6 months', months: 6, annualized: false };
+const twoYears: RollingWindow = { id: '2y', label: '2 years', months: 24, annualized: true };
+
+describe('calculateRollingReturns', () => {
+  const series = [
+    makePoint('2023-01-03', 0, 0),
+    makePoint('2023-04-03', 5, 5),
+    makePoint('2023-07-03', 10, 4),
+    makePoint('2023-07-05', 21, 4),
+    makePoint('2023-10-02', 15.5, 9.2),
+  ];
+
+  it('skips days before the series covers a full window', () => {
+    const result = calculateRollingReturns(series, 'SPY', sixMonths);
+    expect(result.points.map(p => p.date)).toEqual(['2023-07-03', '2023-07-05', '2023-10-02']);
+  });
+
+  it('measures each window from the last day on or before its start', () => {
+    const result = calculateRollingReturns(series, 'SPY', sixMonths);
+
+    expect(result.points[0]).toEqual({ date: '2023-07-03', portfolio: 10, benchmark: 4, excess: 6 });
+    expect(result.points[1]).toEqual({ date: '2023-07-05', portfolio: 21, benchmark: 4, excess: 17 });
+    // Window starts 2023-04-02, so it runs from the 2023-01-03 point
+    expect(result.points[2]).toEqual({ date: '2023-10-02', portfolio: 15.5, benchmark: 9.2, excess: 6.3 });
+  });
+
+  it('summarizes how often and by how much the portfolio beat the benchmark', () => {
+    const result = calculateRollingReturns(series, 'SPY', sixMonths);
+
+    expect(result.winRate).toBe(100);
+    expect(result.bestExcess).toBe(17);
+    expect(result.worstExcess).toBe(6);
+    expect(result.averageExcess).toBeCloseTo((6 + 17 + 6.3) / 3);
+  });
+
+  it('annualizes windows that ask for it', () => {
+    const longSeries = [makePoint('2021-01-04', 0, 0), makePoint('2023-01-04', 21, 0)];
+    const result = calculateRollingReturns(longSeries, 'SPY', twoYears);
+    expect(result.points[0].portfolio).toBeCloseTo(10);
+  });
+
+  it('returns no windows when the history is too short', () => {
+    const result = calculateRollingReturns(series, 'SPY', twoYears);
+    expect(result.points).toEqual([]);
+    expect(result.winRate).toBeNull();
+  });
+});
+
+describe('thinRollingReturns', () => {
+  it('keeps every nth point and the last one', () => {
+    const points: RollingReturnPoint[] = Array.from({ length: 10 }, (_, i) => ({
+      date: `2023-01-${String(i + 1).padStart(2, '0')}`, portfolio: i, benchmark: 0, excess: i,
+    }));
+    expect(thinRollingReturns(points, 4).map(p => p.portfolio)).toEqual([0, 3, 6, 9]);
+  });
+});
+
+describe('calculateRollingReport', () => {
+  it('builds one series per window', () => {
+    const series = [makePoint('2023-01-03', 0, 0), makePoint('2023-07-03', 10, 4)];
+    const report = calculateRollingReport(series, 'SPY', [sixMonths, twoYears], 500);
+    expect(report.map(r => r.window.id)).toEqual(['6m', '2y']);
+    expect(report[0].points).toHaveLength(1);
+    expect(report[1].points).toHaveLength(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { bootstrapExcessReturns, calculateSignificance } from '../utils/significance';
+import { createRandom } from '../utils/random';
+import { makePoint } from './fixtures';
+
+// Alternating gains and losses that average out to zero
+const zeroMeanNoise = Array.from({ length: 200 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01));
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect(createRandom(8)()).not.toBe(first[0]);
+  });
+
+  it('stays within [0, 1)', () => {
+    const random = createRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('bootstrapExcessReturns', () => {
+  it('needs enough days to judge', () => {
+    expect(bootstrapExcessReturns([0.01, 0.02, 0.03], 'SPY')).toBeNull();
+  });
+
+  it('calls a steady excess skill', () => {
+    const result = bootstrapExcessReturns(Array(100).fill(0.001), 'SPY', { samples: 200 });
+
+    expect(result?.verdict).toBe('skill');
+    expect(result?.annualizedExcess).toBeCloseTo(25.2, 5);
+    expect(result?.confidenceLow).toBeCloseTo(25.2, 5);
+    expect(result?.pValue).toBeCloseTo(1 / 201, 4);
+  });
+
+  it('calls a steady shortfall underperformance', () => {
+    const result = bootstrapExcessReturns(Array(100).fill(-0.001), 'SPY', { samples: 200 });
+    expect(result?.verdict).toBe('underperformance');
+  });
+
+  it('calls a difference that averages out noise, with an interval around zero', () => {
+    const result = bootstrapExcessReturns(zeroMeanNoise, 'SPY', { samples: 500 });
+
+    expect(result?.verdict).toBe('noise');
+    expect(result?.pValue).toBeGreaterThan(0.5);
+    expect(result!.confidenceLow).toBeLessThan(0);
+    expect(result!.confidenceHigh).toBeGreaterThan(0);
+  });
+
+  it('gives the same answer every run', () => {
+    const noisy = zeroMeanNoise.map((r, i) => r + (i % 7) * 0.0002);
+    expect(bootstrapExcessReturns(noisy, 'SPY', { samples: 300 }))
+      .toEqual(bootstrapExcessReturns(noisy, 'SPY', { samples: 300 }));
+  });
+});
+
+describe('calculateSignificance', () => {
+  it('resamples the daily time-weighted excess over the benchmark', () => {
+    // The portfolio gains 1% a day while SPY stands still
+    const series = Array.from({ length: 30 }, (_, i) =>
+      makePoint(`2023-02-${String(i + 1).padStart(2, '0')}`, (Math.pow(1.01, i) - 1) * 100, 0));
+    const result = calculateSignificance(series, 'SPY', { samples: 100 });
+
+    expect(result?.days).toBe(29);
+    expect(result?.annualizedExcess).toBeCloseTo(252, 0);
+    expect(result?.verdict).toBe('skill');
+  });
+});
@@ -216,6 +216,47 @@ describe('stock splits in API responses', () => {
   });
 });
 
+describe('dividends in API responses', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes through dividend events from the API', async () => {
+    const fetchMock = vi.mocked(fetch);
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        prices: [{ date: '2023-12-15', price: 469.33 }],
+        splits: [],
+        dividends: [{ date: '2023-12-15', ticker: 'SPY', amount: 1.906 }],
+      }),
+    } as Response);
+
+    const { fetchStockData } = await import('../utils/stockApi');
+    const result = await fetchStockData('SPY', '2023-12-01', '2024-01-01');
+
+    expect(result.dividends).toEqual([{ date: '2023-12-15', ticker: 'SPY', amount: 1.906 }]);
+  });
+
+  it('defaults to no dividends when the response has none', async () => {
+    const fetchMock = vi.mocked(fetch);
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ prices: [{ date: '2024-01-02', price: 100 }], splits: [] }),
+    } as Response);
+
+    const { fetchMultipleStocks } = await import('../utils/stockApi');
+    const result = await fetchMultipleStocks(['AAPL'], '2024-01-02', '2024-01-06');
+
+    expect(result.dividends['AAPL']).toEqual([]);
+  });
+});
+
 // ============================================================
 // getDateRange (date range calculation for API calls)
 // ============================================================
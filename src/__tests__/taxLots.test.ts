@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaxLots, getUnrealizedGain } from '../utils/taxLots';
+import type { Trade } from '../types/Trade';
+
+function makeTrade(overrides: Partial<Trade> & { id: string; date: string; shares: number }): Trade {
+  return { ticker: 'AAPL', type: 'buy', ...overrides };
+}
+
+// Three buys at rising, then falling prices, and one sell of 15 shares
+const trades: Trade[] = [
+  makeTrade({ id: 'b1', date: '2023-01-02', shares: 10, price: 100 }),
+  makeTrade({ id: 'b2', date: '2023-02-01', shares: 10, price: 150 }),
+  makeTrade({ id: 'b3', date: '2023-03-01', shares: 10, price: 120 }),
+  makeTrade({ id: 's1', date: '2023-04-03', shares: 15, price: 160, type: 'sell' }),
+];
+
+describe('buildTaxLots', () => {
+  it('sells the oldest lots first with FIFO', () => {
+    const { openLots, realizedLots } = buildTaxLots(trades, 'fifo');
+
+    expect(realizedLots.map(l => [l.lotId, l.shares])).toEqual([['b1', 10], ['b2', 5]]);
+    // (160 - 100) * 10 + (160 - 150) * 5
+    expect(realizedLots.reduce((sum, l) => sum + l.gain, 0)).toBe(650);
+    expect(openLots.map(l => [l.id, l.shares])).toEqual([['b2', 5], ['b3', 10]]);
+  });
+
+  it('sells the newest lots first with LIFO', () => {
+    const { openLots, realizedLots } = buildTaxLots(trades, 'lifo');
+
+    expect(realizedLots.map(l => [l.lotId, l.shares])).toEqual([['b3', 10], ['b2', 5]]);
+    expect(openLots.map(l => [l.id, l.shares])).toEqual([['b1', 10], ['b2', 5]]);
+  });
+
+  it('sells the most expensive lots first with HIFO', () => {
+    const { realizedLots } = buildTaxLots(trades, 'hifo');
+
+    expect(realizedLots.map(l => [l.lotId, l.shares])).toEqual([['b2', 10], ['b3', 5]]);
+    // (160 - 150) * 10 + (160 - 120) * 5
+    expect(realizedLots.reduce((sum, l) => sum + l.gain, 0)).toBe(300);
+  });
+
+  it('sells the named lot first with specific ID, then falls back to FIFO', () => {
+    const specific = trades.map(t => t.id === 's1' ? { ...t, lotId: 'b3' } : t);
+    const { realizedLots } = buildTaxLots(specific, 'specific');
+
+    expect(realizedLots.map(l => [l.lotId, l.shares])).toEqual([['b3', 10], ['b1', 5]]);
+  });
+
+  it('keeps lots separate per ticker', () => {
+    const mixed = [
+      ...trades,
+      makeTrade({ id: 'g1', ticker: 'GOOG', date: '2023-01-02', shares: 3, price: 90 }),
+    ];
+    const { openLots } = buildTaxLots(mixed, 'fifo');
+    expect(openLots.find(l => l.ticker === 'GOOG')!.shares).toBe(3);
+  });
+
+  it('processes buys before sells on the same day', () => {
+    const sameDay = [
+      makeTrade({ id: 's1', date: '2023-01-02', shares: 5, price: 110, type: 'sell' }),
+      makeTrade({ id: 'b1', date: '2023-01-02', shares: 5, price: 100 }),
+    ];
+    const { openLots, realizedLots } = buildTaxLots(sameDay, 'fifo');
+    expect(openLots).toHaveLength(0);
+    expect(realizedLots[0].gain).toBe(50);
+  });
+
+  it('spreads zero-cost split shares across the open lots', () => {
+    const withSplit = [
+      makeTrade({ id: 'b1', date: '2020-01-02', shares: 10, price: 400 }),
+      makeTrade({ id: 'b2', date: '2020-06-01', shares: 10, price: 300 }),
+      // 4-for-1 split: 60 extra shares
+      makeTrade({ id: 'split', date: '2020-08-31', shares: 60, price: 0 }),
+    ];
+    const { openLots } = buildTaxLots(withSplit, 'fifo');
+
+    expect(openLots.map(l => [l.id, l.shares, l.costPerShare])).toEqual([['b1', 40, 100], ['b2', 40, 75]]);
+  });
+
+  it('ignores shares sold beyond what was bought', () => {
+    const oversold = [
+      makeTrade({ id: 'b1', date: '2023-01-02', shares: 5, price: 100 }),
+      makeTrade({ id: 's1', date: '2023-02-01', shares: 8, price: 120, type: 'sell' }),
+    ];
+    const { openLots, realizedLots } = buildTaxLots(oversold, 'fifo');
+    expect(openLots).toHaveLength(0);
+    expect(realizedLots).toHaveLength(1);
+    expect(realizedLots[0].shares).toBe(5);
+  });
+
+  it('adds buy fees to the cost and takes sell fees off the proceeds', () => {
+    const withFees = [
+      makeTrade({ id: 'b1', date: '2023-01-02', shares: 10, price: 100, fees: 10 }),
+      makeTrade({ id: 's1', date: '2023-02-01', shares: 4, price: 120, type: 'sell', fees: 8 }),
+    ];
+    const { openLots, realizedLots } = buildTaxLots(withFees, 'fifo');
+
+    expect(openLots.map(l => [l.id, l.shares, l.costPerShare])).toEqual([['b1', 6, 101]]);
+    // Cost 4 * 101, proceeds 4 * 120 - 8
+    expect(realizedLots[0].costBasis).toBe(404);
+    expect(realizedLots[0].proceeds).toBe(472);
+    expect(realizedLots[0].gain).toBe(68);
+  });
+});
+
+describe('getUnrealizedGain', () => {
+  it('values the remaining shares against their cost', () => {
+    const lot = { id: 'b1', ticker: 'AAPL', acquiredDate: '2023-01-02', shares: 4, costPerShare: 100 };
+    expect(getUnrealizedGain(lot, 125)).toBe(100);
+  });
+});
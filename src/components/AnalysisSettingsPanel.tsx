@@ -0,0 +1,169 @@
+import { useCallback } from 'react';
+import type { AnalysisSettings, ReturnBasis } from '../types/AnalysisSettings';
+import type { Benchmark } from '../types/Benchmark';
+import type { LotMethod } from '../types/TaxLot';
+import type { ContributionSchedule } from '../types/Contribution';
+import { RETURN_BASIS_OPTIONS } from '../config/analysisSettings';
+import { LOT_METHOD_OPTIONS } from '../config/lotMethods';
+import { CONTRIBUTION_SCHEDULE_OPTIONS } from '../config/contributionSchedules';
+import { BenchmarkSelector } from './BenchmarkSelector';
+
+interface AnalysisSettingsPanelProps {
+  value: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+export function AnalysisSettingsPanel({ value, onChange }: AnalysisSettingsPanelProps) {
+  const setBenchmarks = useCallback((benchmarks: Benchmark[]) => {
+    onChange({ ...value, benchmarks });
+  }, [value, onChange]);
+
+  const setReturnBasis = useCallback((returnBasis: ReturnBasis) => {
+    onChange({ ...value, returnBasis });
+  }, [value, onChange]);
+
+  const setReinvestDividends = useCallback((reinvestDividends: boolean) => {
+    onChange({ ...value, reinvestDividends });
+  }, [value, onChange]);
+
+  const setLotMethod = useCallback((lotMethod: LotMethod) => {
+    onChange({ ...value, lotMethod });
+  }, [value, onChange]);
+
+  const setDcaSchedule = useCallback((dcaSchedule: ContributionSchedule) => {
+    onChange({ ...value, dcaSchedule });
+  }, [value, onChange]);
+
+  const setFreezeDate = useCallback((freezeDate: string) => {
+    onChange({ ...value, freezeDate: freezeDate || null });
+  }, [value, onChange]);
+
+  const setExpenseRatio = useCallback((expenseRatio: string) => {
+    const parsed = parseFloat(expenseRatio);
+    onChange({ ...value, expenseRatio: isNaN(parsed) ? 0 : Math.min(100, Math.max(0, parsed)) });
+  }, [value, onChange]);
+
+  // Adjusted closes already assume every dividend was reinvested
+  const dividendsInPrices = value.returnBasis === 'total';
+
+  return (
+    <div className="space-y-4">
+      <BenchmarkSelector value={value.benchmarks} onChange={setBenchmarks} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-slate-700 mr-1">Prices</span>
+        {RETURN_BASIS_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setReturnBasis(option.value)}
+            title={option.description}
+            className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-all duration-150 active:scale-[0.98] ${
+              value.returnBasis === option.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <span className="text-xs text-slate-500">
+          {RETURN_BASIS_OPTIONS.find(o => o.value === value.returnBasis)?.description}
+        </span>
+      </div>
+
+      <label className={`flex items-center gap-2 text-sm ${dividendsInPrices ? 'text-slate-400' : 'text-slate-700'}`}>
+        <input
+          type="checkbox"
+          checked={value.reinvestDividends || dividendsInPrices}
+          disabled={dividendsInPrices}
+          onChange={(e) => setReinvestDividends(e.target.checked)}
+          className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+        />
+        Reinvest benchmark dividends (DRIP)
+        {dividendsInPrices && (
+          <span className="text-xs">- already included in total-return prices</span>
+        )}
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="lot-method" className="text-sm font-medium text-slate-700 mr-1">
+          Match sells to lots
+        </label>
+        <select
+          id="lot-method"
+          value={value.lotMethod}
+          onChange={(e) => setLotMethod(e.target.value as LotMethod)}
+          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {LOT_METHOD_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-500">
+          {LOT_METHOD_OPTIONS.find(o => o.value === value.lotMethod)?.description}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="dca-schedule" className="text-sm font-medium text-slate-700 mr-1">
+          Dollar-cost average
+        </label>
+        <select
+          id="dca-schedule"
+          value={value.dcaSchedule}
+          onChange={(e) => setDcaSchedule(e.target.value as ContributionSchedule)}
+          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {CONTRIBUTION_SCHEDULE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-500">
+          {CONTRIBUTION_SCHEDULE_OPTIONS.find(o => o.value === value.dcaSchedule)?.description}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="freeze-date" className="text-sm font-medium text-slate-700 mr-1">
+          Buy and hold from
+        </label>
+        <input
+          id="freeze-date"
+          type="date"
+          value={value.freezeDate ?? ''}
+          onChange={(e) => setFreezeDate(e.target.value)}
+          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <span className="text-xs text-slate-500">
+          {value.freezeDate
+            ? 'Holdings on this date, never traded again'
+            : 'Holdings at the end of the first month, never traded again'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="expense-ratio" className="text-sm font-medium text-slate-700 mr-1">
+          Benchmark expense ratio
+        </label>
+        <input
+          id="expense-ratio"
+          type="number"
+          min={0}
+          max={100}
+          step={0.01}
+          value={value.expenseRatio}
+          onChange={(e) => setExpenseRatio(e.target.value)}
+          className="w-24 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <span className="text-xs text-slate-500">
+          Percent a year, taken out of the benchmark daily (SPY charges 0.09%)
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { memo } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { AttributionPoint, AttributionReport } from '../types/Attribution';
+import { getBenchmarkName } from '../config/benchmarks';
+import { ATTRIBUTION_COLORS, MAX_ATTRIBUTION_TICKERS } from '../config/attribution';
+
+interface AttributionChartProps {
+  data: AttributionReport;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`;
+
+const formatAxis = (value: number) => {
+  if (Math.abs(value) >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1000) return `$${(value / 1000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+const gainColor = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+export const AttributionChart = memo(function AttributionChart({ data }: AttributionChartProps) {
+  if (data.series.length === 0) {
+    return (
+      <div className="h-80 flex items-center justify-center bg-slate-50 rounded-lg">
+        <p className="text-slate-500">No data to display</p>
+      </div>
+    );
+  }
+
+  const benchmarkName = getBenchmarkName(data.benchmark);
+
+  // Chart the biggest movers either way; everything else is one "Other" band
+  const charted = [...data.tickers]
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, MAX_ATTRIBUTION_TICKERS)
+    .map(t => t.ticker);
+  const others = data.tickers.map(t => t.ticker).filter(ticker => !charted.includes(ticker));
+  const otherContribution = (point: AttributionPoint) =>
+    others.reduce((sum, ticker) => sum + (point.contributions[ticker] ?? 0), 0);
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={data.series}
+            stackOffset="sign"
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="4 4" stroke="#e2e8f0" strokeOpacity={0.8} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatDate}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              tickFormatter={formatAxis}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              width={70}
+            />
+            <Tooltip
+              formatter={(value) => [formatSigned(value as number)]}
+              labelFormatter={(label) => new Date(label).toLocaleDateString()}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: 'none',
+                borderRadius: '12px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+              }}
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            {charted.map((ticker, index) => (
+              <Area
+                key={ticker}
+                type="monotone"
+                dataKey={(point: AttributionPoint) => point.contributions[ticker] ?? 0}
+                name={ticker}
+                stackId="attribution"
+                stroke={ATTRIBUTION_COLORS[index % ATTRIBUTION_COLORS.length]}
+                fill={ATTRIBUTION_COLORS[index % ATTRIBUTION_COLORS.length]}
+                fillOpacity={0.5}
+                strokeWidth={1}
+                dot={false}
+              />
+            ))}
+            {others.length > 0 && (
+              <Area
+                type="monotone"
+                dataKey={otherContribution}
+                name={`Other (${others.length})`}
+                stackId="attribution"
+                stroke="#94a3b8"
+                fill="#94a3b8"
+                fillOpacity={0.4}
+                strokeWidth={1}
+                dot={false}
+              />
+            )}
+            <Area
+              type="monotone"
+              dataKey="cashAndTiming"
+              name="Cash & timing"
+              stackId="attribution"
+              stroke="#64748b"
+              fill="#cbd5e1"
+              fillOpacity={0.4}
+              strokeWidth={1}
+              strokeDasharray="3 3"
+              dot={false}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-100">
+              <th className="py-2 pr-4 font-medium">Position</th>
+              <th className="py-2 pr-4 font-medium text-right">Excess over {benchmarkName}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.tickers.map(({ ticker, contribution, closed }) => (
+              <tr key={ticker} className="border-b border-slate-50">
+                <td className="py-1.5 pr-4 font-medium text-slate-900">
+                  {ticker}
+                  {closed && <span className="ml-2 text-xs font-normal text-slate-400">sold</span>}
+                </td>
+                <td className={`py-1.5 pr-4 text-right font-medium ${gainColor(contribution)}`}>
+                  {formatSigned(contribution)}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-b border-slate-50">
+              <td className="py-1.5 pr-4 text-slate-600">Cash & timing</td>
+              <td className={`py-1.5 pr-4 text-right ${gainColor(data.cashAndTiming)}`}>
+                {formatSigned(data.cashAndTiming)}
+              </td>
+            </tr>
+            <tr>
+              <td className="py-2 pr-4 font-bold text-slate-900">Total difference</td>
+              <td className={`py-2 pr-4 text-right font-bold ${gainColor(data.totalDifference)}`}>
+                {formatSigned(data.totalDifference)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">
+        Each position is compared with buying and selling the same dollar amounts of {benchmarkName} on
+        the same days. Cash & timing covers uninvested cash and deposits that waited before being invested.
+      </p>
+    </div>
+  );
+});
@@ -0,0 +1,141 @@
+import { useState, useCallback } from 'react';
+import type { Benchmark, RebalanceFrequency } from '../types/Benchmark';
+import { BENCHMARK_PRESETS, getBenchmarkName } from '../config/benchmarks';
+import { createTickerBenchmark, parseBlendedBenchmark } from '../utils/benchmarks';
+
+interface BenchmarkSelectorProps {
+  value: Benchmark[];
+  onChange: (benchmarks: Benchmark[]) => void;
+}
+
+export function BenchmarkSelector({ value, onChange }: BenchmarkSelectorProps) {
+  const [customTicker, setCustomTicker] = useState('');
+  const [blendSpec, setBlendSpec] = useState('');
+  const [blendRebalance, setBlendRebalance] = useState<RebalanceFrequency>('quarterly');
+  const [blendError, setBlendError] = useState<string | null>(null);
+
+  const isSelected = useCallback((id: string) => value.some(b => b.id === id), [value]);
+
+  const add = useCallback((benchmark: Benchmark) => {
+    if (!value.some(b => b.id === benchmark.id)) {
+      onChange([...value, benchmark]);
+    }
+  }, [value, onChange]);
+
+  const remove = useCallback((id: string) => {
+    // Always keep at least one benchmark selected
+    if (value.length > 1) {
+      onChange(value.filter(b => b.id !== id));
+    }
+  }, [value, onChange]);
+
+  const togglePreset = useCallback((ticker: string) => {
+    if (isSelected(ticker)) {
+      remove(ticker);
+    } else {
+      add(createTickerBenchmark(ticker));
+    }
+  }, [isSelected, add, remove]);
+
+  const handleCustomSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const ticker = customTicker.trim().toUpperCase();
+    if (!ticker) return;
+    add(createTickerBenchmark(ticker));
+    setCustomTicker('');
+  }, [customTicker, add]);
+
+  const handleBlendSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setBlendError(null);
+    try {
+      add(parseBlendedBenchmark(blendSpec, blendRebalance));
+      setBlendSpec('');
+    } catch (err) {
+      setBlendError(err instanceof Error ? err.message : 'Invalid blend');
+    }
+  }, [blendSpec, blendRebalance, add]);
+
+  const customSelected = value.filter(b => !BENCHMARK_PRESETS.some(p => p.ticker === b.id));
+
+  const chipBaseClass = 'py-1.5 px-3 rounded-lg text-sm font-medium transition-all duration-150 active:scale-[0.98]';
+  const chipClass = (selected: boolean) => `${chipBaseClass} ${
+    selected
+      ? 'bg-blue-600 text-white'
+      : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+  }`;
+  const inputClass = 'px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-slate-700 mr-1">Compare against</span>
+        {BENCHMARK_PRESETS.map((preset) => (
+          <button
+            key={preset.ticker}
+            type="button"
+            onClick={() => togglePreset(preset.ticker)}
+            title={preset.name}
+            className={chipClass(isSelected(preset.ticker))}
+          >
+            {preset.ticker}
+          </button>
+        ))}
+        {customSelected.map((benchmark) => (
+          <button
+            key={benchmark.id}
+            type="button"
+            onClick={() => remove(benchmark.id)}
+            title="Click to remove"
+            className={chipClass(true)}
+          >
+            {benchmark.id} ×
+          </button>
+        ))}
+        <form onSubmit={handleCustomSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={customTicker}
+            onChange={(e) => setCustomTicker(e.target.value)}
+            placeholder="Other ticker"
+            className={`w-32 ${inputClass}`}
+          />
+          <button type="submit" className={chipClass(false)}>
+            Add
+          </button>
+        </form>
+      </div>
+      <form onSubmit={handleBlendSubmit} className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-slate-700 mr-1">Or a blend</span>
+        <input
+          type="text"
+          value={blendSpec}
+          onChange={(e) => setBlendSpec(e.target.value)}
+          placeholder="60% VTI / 40% BND"
+          className={`w-48 ${inputClass}`}
+        />
+        <select
+          value={blendRebalance}
+          onChange={(e) => setBlendRebalance(e.target.value as RebalanceFrequency)}
+          className={inputClass}
+        >
+          <option value="monthly">Rebalance monthly</option>
+          <option value="quarterly">Rebalance quarterly</option>
+          <option value="annually">Rebalance annually</option>
+          <option value="none">Never rebalance</option>
+        </select>
+        <button type="submit" className={chipClass(false)}>
+          Add blend
+        </button>
+      </form>
+      {blendError && (
+        <div className="text-red-600 text-sm bg-red-50 p-2 rounded">
+          {blendError}
+        </div>
+      )}
+      <p className="text-xs text-slate-500">
+        Primary benchmark: {getBenchmarkName(value[0].id)}. The per-stock breakdown compares against it.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { memo, useState } from 'react';
+import type { CalendarReturn, CalendarYear } from '../types/CalendarReturns';
+import { getBenchmarkName } from '../config/benchmarks';
+
+interface CalendarReturnsProps {
+  data: CalendarYear[];
+  benchmark: string;
+}
+
+type CalendarView = keyof CalendarReturn;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+// Green for gains, red for losses, more saturated the further from zero
+function heatColor(value: number, scale: number): string {
+  const intensity = scale > 0 ? Math.min(1, Math.abs(value) / scale) : 0;
+  const alpha = 0.08 + intensity * 0.55;
+  return value >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+}
+
+export const CalendarReturns = memo(function CalendarReturns({ data, benchmark }: CalendarReturnsProps) {
+  const [view, setView] = useState<CalendarView>('difference');
+
+  if (data.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-500">
+        No returns to display
+      </div>
+    );
+  }
+
+  const benchmarkName = getBenchmarkName(benchmark);
+  const views: { value: CalendarView; label: string }[] = [
+    { value: 'portfolio', label: 'Your Portfolio' },
+    { value: 'benchmark', label: benchmarkName },
+    { value: 'difference', label: `Difference vs ${benchmarkName}` },
+  ];
+
+  // Months and years are scaled separately; yearly moves are naturally larger
+  const monthValues = data.flatMap(y => y.months.filter((m): m is CalendarReturn => m !== null).map(m => m[view]));
+  const monthScale = Math.max(...monthValues.map(Math.abs), 0);
+  const yearScale = Math.max(...data.map(y => Math.abs(y.annual[view])), 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-5">
+      <div className="flex justify-end gap-1 mb-3">
+        {views.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setView(value)}
+            className={`py-1 px-3 rounded-lg text-xs font-medium transition-all duration-150 ${
+              view === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="py-2 pr-2 text-left font-medium">Year</th>
+              {MONTHS.map(month => (
+                <th key={month} className="py-2 px-1 text-center font-medium">{month}</th>
+              ))}
+              <th className="py-2 pl-2 text-center font-medium">Year</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(year => (
+              <tr key={year.year}>
+                <td className="py-1 pr-2 font-medium text-slate-700">{year.year}</td>
+                {year.months.map((month, i) => (
+                  <td key={MONTHS[i]} className="p-0.5">
+                    {month && (
+                      <div
+                        className="rounded px-1 py-1.5 text-center text-slate-800"
+                        style={{ backgroundColor: heatColor(month[view], monthScale) }}
+                        title={`${MONTHS[i]} ${year.year}: portfolio ${formatPercent(month.portfolio)}, ${benchmarkName} ${formatPercent(month.benchmark)}`}
+                      >
+                        {formatPercent(month[view])}
+                      </div>
+                    )}
+                  </td>
+                ))}
+                <td className="p-0.5 pl-2">
+                  <div
+                    className="rounded px-1 py-1.5 text-center font-semibold text-slate-900"
+                    style={{ backgroundColor: heatColor(year.annual[view], yearScale) }}
+                    title={`${year.year}: portfolio ${formatPercent(year.annual.portfolio)}, ${benchmarkName} ${formatPercent(year.annual.benchmark)}`}
+                  >
+                    {formatPercent(year.annual[view])}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400 mt-3">
+        Time-weighted, so deposits don't count as gains. The first and last periods only cover the days analyzed.
+      </p>
+    </div>
+  );
+});
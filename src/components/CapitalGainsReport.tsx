@@ -0,0 +1,122 @@
+import { memo, useState, useCallback } from 'react';
+import type { CapitalGainsTotals, CapitalGainsYear } from '../types/CapitalGains';
+import { capitalGainsToCsv } from '../utils/capitalGains';
+
+interface CapitalGainsReportProps {
+  data: CapitalGainsYear[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const gainColor = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+function TotalsCard({ label, totals }: { label: string; totals: CapitalGainsTotals }) {
+  return (
+    <div className="bg-slate-50 rounded-xl p-4">
+      <p className="text-sm text-slate-500 mb-1">{label}</p>
+      <p className={`text-xl font-bold ${gainColor(totals.gain)}`}>{formatCurrency(totals.gain)}</p>
+      <p className="text-xs text-slate-500 mt-1">
+        {formatCurrency(totals.proceeds)} proceeds - {formatCurrency(totals.costBasis)} cost basis
+      </p>
+    </div>
+  );
+}
+
+export const CapitalGainsReport = memo(function CapitalGainsReport({ data }: CapitalGainsReportProps) {
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const report = data.find(y => y.year === selectedYear) ?? data[0];
+
+  const handleDownload = useCallback(() => {
+    if (!report) return;
+
+    const blob = new Blob([capitalGainsToCsv(report)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `capital-gains-${report.year}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [report]);
+
+  if (!report) {
+    return (
+      <div className="text-center py-8 text-slate-500">
+        No sales to report
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-5 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <label htmlFor="tax-year" className="text-sm font-medium text-slate-700">
+            Tax year
+          </label>
+          <select
+            id="tax-year"
+            value={report.year}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {data.map((y) => (
+              <option key={y.year} value={y.year}>{y.year}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleDownload}
+          className="py-2 px-4 bg-blue-600 hover:bg-blue-700 active:scale-[0.98] text-white text-sm rounded-xl font-medium shadow-sm hover:shadow transition-all duration-150"
+        >
+          Download CSV
+        </button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <TotalsCard label="Short-term (held one year or less)" totals={report.shortTerm} />
+        <TotalsCard label="Long-term (held more than one year)" totals={report.longTerm} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-100">
+              <th className="py-2 pr-4 font-medium">Ticker</th>
+              <th className="py-2 pr-4 font-medium">Term</th>
+              <th className="py-2 pr-4 font-medium">Acquired</th>
+              <th className="py-2 pr-4 font-medium">Sold</th>
+              <th className="py-2 pr-4 font-medium text-right">Held</th>
+              <th className="py-2 pr-4 font-medium text-right">Shares</th>
+              <th className="py-2 pr-4 font-medium text-right">Proceeds</th>
+              <th className="py-2 pr-4 font-medium text-right">Cost Basis</th>
+              <th className="py-2 font-medium text-right">Gain</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map((row, i) => (
+              <tr key={`${row.ticker}-${row.acquiredDate}-${row.soldDate}-${i}`} className="border-b border-slate-50">
+                <td className="py-2 pr-4 font-medium text-slate-900">{row.ticker}</td>
+                <td className="py-2 pr-4 text-slate-600">{row.term === 'short' ? 'Short' : 'Long'}</td>
+                <td className="py-2 pr-4 text-slate-600">{row.acquiredDate}</td>
+                <td className="py-2 pr-4 text-slate-600">{row.soldDate}</td>
+                <td className="py-2 pr-4 text-right text-slate-600">{row.holdingDays}d</td>
+                <td className="py-2 pr-4 text-right text-slate-600">{row.shares.toLocaleString()}</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(row.proceeds)}</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(row.costBasis)}</td>
+                <td className={`py-2 text-right font-medium ${gainColor(row.gain)}`}>{formatCurrency(row.gain)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+});
@@ -8,14 +8,26 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceDot,
 } from 'recharts';
 import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { SellRegret } from '../types/SellRegret';
+import { getBenchmarkColor, getBenchmarkName } from '../config/benchmarks';
 
 interface ComparisonChartProps {
   data: PortfolioDataPoint[];
+  benchmarks: string[];
+  sells?: SellRegret[];
 }
 
-export const ComparisonChart = memo(function ComparisonChart({ data }: ComparisonChartProps) {
+// Red when holding would have beaten redeploying the proceeds, green when the sale paid off,
+// grey when the sold ticker has no prices to tell
+const sellMarkerColor = (sell: SellRegret) => {
+  if (sell.regret === null) return '#94a3b8';
+  return sell.regret > 0 ? '#ef4444' : '#10b981';
+};
+
+export const ComparisonChart = memo(function ComparisonChart({ data, benchmarks, sells = [] }: ComparisonChartProps) {
   if (data.length === 0) {
     return (
       <div className="h-80 flex items-center justify-center bg-slate-50 rounded-lg">
@@ -38,6 +50,19 @@ export const ComparisonChart = memo(function ComparisonChart({ data }: Compariso
     return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
   };
 
+  // Only draw the cash line when the export recorded deposits to track it from
+  const hasCash = data.some(point => point.cashBalance > 0);
+
+  // The timing alternatives are null when no money went in on balance
+  const hasDca = data.some(point => point.dcaValue !== null);
+  const hasLumpSum = data.some(point => point.lumpSumValue !== null);
+
+  // The chart is downsampled, so each sell is marked on the first point on or after it
+  const sellMarkers = sells.flatMap(sell => {
+    const point = data.find(p => p.date >= sell.date);
+    return point ? [{ sell, point }] : [];
+  });
+
   return (
     <div className="h-80">
       <ResponsiveContainer width="100%" height="100%">
@@ -79,15 +104,78 @@ export const ComparisonChart = memo(function ComparisonChart({ data }: Compariso
             dot={false}
             activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
           />
+          {hasCash && (
+            <Line
+              type="monotone"
+              dataKey="cashBalance"
+              name="Uninvested Cash"
+              stroke="#94a3b8"
+              strokeWidth={1.5}
+              strokeDasharray="4 4"
+              dot={false}
+              activeDot={{ r: 4, strokeWidth: 2, stroke: 'white' }}
+            />
+          )}
           <Line
             type="monotone"
-            dataKey="counterfactualValue"
-            name="Deposits in S&P 500"
-            stroke="#10b981"
-            strokeWidth={2}
+            dataKey="buyAndHoldValue"
+            name="Buy and Hold"
+            stroke="#3b82f6"
+            strokeWidth={1.5}
+            strokeOpacity={0.6}
+            strokeDasharray="6 3"
             dot={false}
-            activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
+            activeDot={{ r: 4, strokeWidth: 2, stroke: 'white' }}
           />
+          {benchmarks.map((benchmark, index) => (
+            <Line
+              key={benchmark}
+              type="monotone"
+              dataKey={(point: PortfolioDataPoint) => point.counterfactualValues[benchmark]}
+              name={`Deposits in ${getBenchmarkName(benchmark)}`}
+              stroke={getBenchmarkColor(index)}
+              strokeWidth={2}
+              dot={false}
+              activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
+            />
+          ))}
+          {hasDca && (
+            <Line
+              type="monotone"
+              dataKey="dcaValue"
+              name={`Dollar-cost averaged into ${getBenchmarkName(benchmarks[0])}`}
+              stroke={getBenchmarkColor(0)}
+              strokeWidth={1.5}
+              strokeOpacity={0.7}
+              strokeDasharray="2 3"
+              dot={false}
+              activeDot={{ r: 4, strokeWidth: 2, stroke: 'white' }}
+            />
+          )}
+          {hasLumpSum && (
+            <Line
+              type="monotone"
+              dataKey="lumpSumValue"
+              name={`Lump sum in ${getBenchmarkName(benchmarks[0])} at the start`}
+              stroke={getBenchmarkColor(0)}
+              strokeWidth={1.5}
+              strokeOpacity={0.5}
+              strokeDasharray="8 4"
+              dot={false}
+              activeDot={{ r: 4, strokeWidth: 2, stroke: 'white' }}
+            />
+          )}
+          {sellMarkers.map(({ sell, point }) => (
+            <ReferenceDot
+              key={sell.tradeId}
+              x={point.date}
+              y={point.portfolioValue}
+              r={4}
+              fill={sellMarkerColor(sell)}
+              stroke="white"
+              strokeWidth={1.5}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </div>
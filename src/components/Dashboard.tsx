@@ -5,31 +5,80 @@ import type { PortfolioData } from '../types/PortfolioData';
 import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
 import type { StockBreakdownData } from '../types/StockBreakdownData';
 import type { SummaryData } from '../types/SummaryData';
+import type { CapitalGainsYear } from '../types/CapitalGains';
+import type { RiskReport } from '../types/RiskMetrics';
+import type { OutperformanceSignificance } from '../types/Significance';
+import type { RandomPortfolioRanking } from '../types/RandomPortfolios';
+import type { DrawdownReport } from '../types/Drawdown';
+import type { CalendarYear } from '../types/CalendarReturns';
+import type { RollingReturnSeries } from '../types/RollingReturns';
+import type { AttributionReport } from '../types/Attribution';
+import type { SellRegret } from '../types/SellRegret';
+import type { AnalysisSettings } from '../types/AnalysisSettings';
 import { useStockData } from '../hooks/useStockData';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 import { FileUpload } from './FileUpload';
 import { ManualEntry } from './ManualEntry';
 import { ComparisonChart } from './ComparisonChart';
+import { UnderwaterChart } from './UnderwaterChart';
 import { ReturnChart } from './ReturnChart';
+import { CalendarReturns } from './CalendarReturns';
+import { RollingReturnChart } from './RollingReturnChart';
+import { AttributionChart } from './AttributionChart';
 import { StockBreakdown } from './StockBreakdown';
+import { SellRegretTable } from './SellRegretTable';
 import { SummaryStats } from './SummaryStats';
+import { RiskMetricsPanel } from './RiskMetricsPanel';
+import { RandomPortfolioChart } from './RandomPortfolioChart';
+import { CapitalGainsReport } from './CapitalGainsReport';
 import { CsvBuilder } from './CsvBuilder';
+import { AnalysisSettingsPanel } from './AnalysisSettingsPanel';
+import { DEFAULT_ANALYSIS_SETTINGS } from '../config/analysisSettings';
 
 type InputMode = 'upload' | 'manual' | 'csv-builder';
 
 const INPUT_MODES: InputMode[] = ['upload', 'manual', 'csv-builder'];
 
+// How long the settings must sit still before an uploaded portfolio is re-analyzed
+const SETTINGS_DEBOUNCE_MS = 600;
+
 const emptyPortfolio: PortfolioData = { trades: [], cashFlows: [], format: 'simple' };
 
 interface TabResults {
   timeSeriesData: PortfolioDataPoint[];
   breakdownData: StockBreakdownData[];
   summaryData: SummaryData | null;
+  capitalGains: CapitalGainsYear[];
+  riskReport: RiskReport | null;
+  significance: OutperformanceSignificance | null;
+  randomPortfolios: RandomPortfolioRanking | null;
+  drawdownReport: DrawdownReport | null;
+  calendarReturns: CalendarYear[];
+  rollingReturns: RollingReturnSeries[];
+  attribution: AttributionReport | null;
+  sellRegret: SellRegret[];
+  settings: AnalysisSettings;
 }
 
-const emptyResults: TabResults = { timeSeriesData: [], breakdownData: [], summaryData: null };
+const emptyResults: TabResults = {
+  timeSeriesData: [],
+  breakdownData: [],
+  summaryData: null,
+  capitalGains: [],
+  riskReport: null,
+  significance: null,
+  randomPortfolios: null,
+  drawdownReport: null,
+  calendarReturns: [],
+  rollingReturns: [],
+  attribution: null,
+  sellRegret: [],
+  settings: DEFAULT_ANALYSIS_SETTINGS,
+};
 
 export function Dashboard() {
   const [inputMode, setInputMode] = useState<InputMode>('upload');
+  const [settings, setSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
   const [tabPortfolioData, setTabPortfolioData] = useState<Record<InputMode, PortfolioData>>({
     upload: { ...emptyPortfolio },
     manual: { ...emptyPortfolio },
@@ -41,7 +90,25 @@ export function Dashboard() {
     'csv-builder': { ...emptyResults },
   });
 
-  const { loading, error, timeSeriesData, breakdownData, summaryData, loadData, reset } = useStockData();
+  const {
+    loading,
+    error,
+    timeSeriesData,
+    breakdownData,
+    summaryData,
+    capitalGains,
+    riskReport,
+    significance,
+    randomPortfolios,
+    drawdownReport,
+    calendarReturns,
+    rollingReturns,
+    attribution,
+    sellRegret,
+    settings: resultSettings,
+    loadData,
+    reset,
+  } = useStockData();
 
   // Track which tab triggered the current load so we store results in the right tab
   const loadingTabRef = useRef<InputMode>(inputMode);
@@ -53,10 +120,27 @@ export function Dashboard() {
     if (timeSeriesData.length > 0 && summaryData !== null) {
       setTabResults(prev => ({
         ...prev,
-        [tab]: { timeSeriesData, breakdownData, summaryData },
+        [tab]: {
+          timeSeriesData,
+          breakdownData,
+          summaryData,
+          capitalGains,
+          riskReport,
+          significance,
+          randomPortfolios,
+          drawdownReport,
+          calendarReturns,
+          rollingReturns,
+          attribution,
+          sellRegret,
+          settings: resultSettings,
+        },
       }));
     }
-  }, [loading, timeSeriesData, breakdownData, summaryData]);
+  }, [
+    loading, timeSeriesData, breakdownData, summaryData, capitalGains, riskReport, significance, randomPortfolios,
+    drawdownReport, calendarReturns, rollingReturns, attribution, sellRegret, resultSettings,
+  ]);
 
   const handleDataLoaded = useCallback((data: PortfolioData) => {
     setTabPortfolioData(prev => ({ ...prev, upload: data }));
@@ -80,9 +164,9 @@ export function Dashboard() {
     const data = tabPortfolioData.manual;
     if (data.trades.length > 0) {
       loadingTabRef.current = 'manual';
-      loadData(data);
+      loadData(data, settings);
     }
-  }, [tabPortfolioData, loadData]);
+  }, [tabPortfolioData, settings, loadData]);
 
   const handleClear = useCallback(() => {
     setTabPortfolioData(prev => ({ ...prev, manual: { ...emptyPortfolio } }));
@@ -90,23 +174,23 @@ export function Dashboard() {
     reset();
   }, [reset]);
 
-  // Auto-analyze for upload tab
+  // Auto-analyze for upload tab, once the settings have stopped changing
+  // so typing into a field doesn't start a reload per keystroke
+  const settledSettings = useDebouncedValue(settings, SETTINGS_DEBOUNCE_MS);
+
   useEffect(() => {
     const uploadData = tabPortfolioData.upload;
     if (uploadData.trades.length === 0 || inputMode !== 'upload') {
       return;
     }
 
-    const timer = setTimeout(() => {
-      loadingTabRef.current = 'upload';
-      loadData(uploadData);
-    }, 100);
-
-    return () => clearTimeout(timer);
-  }, [tabPortfolioData.upload, inputMode, loadData]);
+    loadingTabRef.current = 'upload';
+    loadData(uploadData, settledSettings);
+  }, [tabPortfolioData.upload, inputMode, settledSettings, loadData]);
 
   const activeResults = tabResults[inputMode];
   const hasResults = activeResults.timeSeriesData.length > 0 && activeResults.summaryData !== null;
+  const activeBenchmarkIds = activeResults.settings.benchmarks.map(b => b.id);
 
   const tabIndex = INPUT_MODES.indexOf(inputMode);
 
@@ -119,7 +203,7 @@ export function Dashboard() {
         <div className="max-w-7xl mx-auto px-6 py-7">
           <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Counterfactual</h1>
           <p className="text-sm text-slate-500 mt-1">
-            Compare your stock portfolio against investing in the S&P 500
+            Compare your stock portfolio against investing in a benchmark like the S&P 500
           </p>
         </div>
       </header>
@@ -167,6 +251,10 @@ export function Dashboard() {
             </TabPanel>
           </Tabs>
 
+          <div className="mt-6 pt-5 border-t border-slate-100">
+            <AnalysisSettingsPanel value={settings} onChange={setSettings} />
+          </div>
+
           {error && (
             <div className="mt-4 text-red-600 bg-red-50 p-3 rounded">
               {error}
@@ -190,7 +278,23 @@ export function Dashboard() {
 
             <section className="mb-10">
               <h3 className="text-lg font-semibold text-slate-800 mb-5">Summary</h3>
-              <SummaryStats data={activeResults.summaryData!} />
+              <SummaryStats
+                data={activeResults.summaryData!}
+                benchmark={activeBenchmarkIds[0]}
+                significance={activeResults.significance}
+              />
+            </section>
+
+            {activeResults.riskReport && (
+              <section className="mb-10">
+                <h3 className="text-lg font-semibold text-slate-800 mb-5">Risk</h3>
+                <RiskMetricsPanel data={activeResults.riskReport} />
+              </section>
+            )}
+
+            <section className="mb-10">
+              <h3 className="text-lg font-semibold text-slate-800 mb-5">Against Random Portfolios</h3>
+              <RandomPortfolioChart data={activeResults.randomPortfolios} />
             </section>
 
             <section className="mb-10">
@@ -198,25 +302,91 @@ export function Dashboard() {
                 Portfolio Value Over Time
               </h3>
               <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-4">
-                <ComparisonChart data={activeResults.timeSeriesData} />
+                <ComparisonChart
+                  data={activeResults.timeSeriesData}
+                  benchmarks={activeBenchmarkIds}
+                  sells={activeResults.sellRegret}
+                />
               </div>
             </section>
 
+            {activeResults.drawdownReport && (
+              <section className="mb-10">
+                <h3 className="text-lg font-semibold text-slate-800 mb-5">
+                  Drawdowns
+                </h3>
+                <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-4">
+                  <UnderwaterChart
+                    data={activeResults.drawdownReport}
+                    benchmarks={activeBenchmarkIds}
+                  />
+                </div>
+              </section>
+            )}
+
             <section className="mb-10">
               <h3 className="text-lg font-semibold text-slate-800 mb-5">
-                Dollar-Weighted Return Over Time
+                Return Over Time
               </h3>
               <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-4">
-                <ReturnChart data={activeResults.timeSeriesData} />
+                <ReturnChart
+                  data={activeResults.timeSeriesData}
+                  benchmarks={activeBenchmarkIds}
+                />
               </div>
             </section>
 
-            <section>
+            <section className="mb-10">
+              <h3 className="text-lg font-semibold text-slate-800 mb-5">
+                Rolling Returns
+              </h3>
+              <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-4">
+                <RollingReturnChart data={activeResults.rollingReturns} benchmark={activeBenchmarkIds[0]} />
+              </div>
+            </section>
+
+            <section className="mb-10">
+              <h3 className="text-lg font-semibold text-slate-800 mb-5">
+                Calendar Returns
+              </h3>
+              <CalendarReturns data={activeResults.calendarReturns} benchmark={activeBenchmarkIds[0]} />
+            </section>
+
+            {activeResults.attribution && (
+              <section className="mb-10">
+                <h3 className="text-lg font-semibold text-slate-800 mb-5">
+                  Performance Attribution
+                </h3>
+                <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-4">
+                  <AttributionChart data={activeResults.attribution} />
+                </div>
+              </section>
+            )}
+
+            <section className="mb-10">
               <h3 className="text-lg font-semibold text-slate-800 mb-5">
                 Per-Stock Breakdown
               </h3>
-              <StockBreakdown data={activeResults.breakdownData} />
+              <StockBreakdown data={activeResults.breakdownData} benchmark={activeBenchmarkIds[0]} />
             </section>
+
+            {activeResults.sellRegret.length > 0 && (
+              <section className="mb-10">
+                <h3 className="text-lg font-semibold text-slate-800 mb-5">
+                  Sell Regret
+                </h3>
+                <SellRegretTable data={activeResults.sellRegret} benchmark={activeBenchmarkIds[0]} />
+              </section>
+            )}
+
+            {activeResults.capitalGains.length > 0 && (
+              <section>
+                <h3 className="text-lg font-semibold text-slate-800 mb-5">
+                  Capital Gains
+                </h3>
+                <CapitalGainsReport data={activeResults.capitalGains} />
+              </section>
+            )}
           </>
         )}
       </main>
@@ -0,0 +1,119 @@
+import { memo } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { RandomPortfolioRanking } from '../types/RandomPortfolios';
+
+interface RandomPortfolioChartProps {
+  data: RandomPortfolioRanking | null;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatCompact = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+};
+
+export const RandomPortfolioChart = memo(function RandomPortfolioChart({ data }: RandomPortfolioChartProps) {
+  if (!data) {
+    return (
+      <div className="h-32 flex items-center justify-center bg-slate-50 rounded-lg px-6 text-center">
+        <p className="text-slate-500">
+          No ranking: none of the random portfolio stocks loaded prices covering your first deposit
+        </p>
+      </div>
+    );
+  }
+
+  const { histogram, portfolioValue } = data;
+  const last = histogram.length - 1;
+  // The bucket the actual portfolio falls in, pinned to the ends when it is outside every random result
+  const portfolioBucket = portfolioValue < histogram[0].from
+    ? 0
+    : portfolioValue >= histogram[last].to
+      ? last
+      : histogram.findIndex((bucket, i) => portfolioValue < bucket.to || i === last);
+
+  const stats = [
+    { label: 'Your percentile', value: `${data.percentile.toFixed(1)}%` },
+    { label: `Your value on ${data.asOf}`, value: formatCurrency(portfolioValue) },
+    { label: 'Median random portfolio', value: formatCurrency(data.median) },
+    { label: 'Middle 90%', value: `${formatCompact(data.low)} – ${formatCompact(data.high)}` },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-5">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-slate-50 rounded-xl p-3">
+            <p className="text-xs text-slate-500">{stat.label}</p>
+            <p className="text-lg font-bold text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={histogram} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="4 4" stroke="#e2e8f0" strokeOpacity={0.8} vertical={false} />
+            <XAxis
+              dataKey="from"
+              tickFormatter={formatCompact}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+            />
+            <YAxis
+              allowDecimals={false}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              width={50}
+            />
+            <Tooltip
+              formatter={(value) => [`${value as number} portfolios`]}
+              labelFormatter={(_, payload) => {
+                const bucket = payload?.[0]?.payload as RandomPortfolioRanking['histogram'][number] | undefined;
+                return bucket ? `${formatCurrency(bucket.from)} to ${formatCurrency(bucket.to)}` : '';
+              }}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: 'none',
+                borderRadius: '12px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+              }}
+            />
+            <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+              {histogram.map((bucket, i) => (
+                <Cell key={bucket.from} fill={i === portfolioBucket ? '#3b82f6' : '#cbd5e1'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-slate-400 mt-3">
+        Values on {data.asOf} of {data.simulations.toLocaleString()} portfolios that received the same dated deposits,
+        each split equally across {data.stocksPerPortfolio} random {data.stocksPerPortfolio === 1 ? 'stock' : 'stocks'} from
+        {' '}{data.universeSize} large caps and held, on the same price basis as your portfolio. Your bucket is
+        highlighted. Today's large caps all survived, so the random portfolios are flattered.
+      </p>
+    </div>
+  );
+});
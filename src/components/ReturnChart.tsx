@@ -1,4 +1,4 @@
-import { memo } from 'react';
+import { memo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -11,12 +11,25 @@ import {
   ReferenceLine,
 } from 'recharts';
 import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import { getBenchmarkColor, getBenchmarkName } from '../config/benchmarks';
 
 interface ReturnChartProps {
   data: PortfolioDataPoint[];
+  benchmarks: string[];
 }
 
-export const ReturnChart = memo(function ReturnChart({ data }: ReturnChartProps) {
+// Simple return is gain over cost basis, so it moves with deposit timing;
+// time-weighted return chain-links daily growth and shows investment skill only
+type ReturnMode = 'simple' | 'timeWeighted';
+
+const RETURN_MODES: { mode: ReturnMode; label: string }[] = [
+  { mode: 'simple', label: 'Simple' },
+  { mode: 'timeWeighted', label: 'Time-weighted' },
+];
+
+export const ReturnChart = memo(function ReturnChart({ data, benchmarks }: ReturnChartProps) {
+  const [returnMode, setReturnMode] = useState<ReturnMode>('simple');
+
   if (data.length === 0) {
     return (
       <div className="h-80 flex items-center justify-center bg-slate-50 rounded-lg">
@@ -32,59 +45,85 @@ export const ReturnChart = memo(function ReturnChart({ data }: ReturnChartProps)
     return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
   };
 
+  const isTimeWeighted = returnMode === 'timeWeighted';
+  const returnLabel = isTimeWeighted ? 'Time-Weighted Return' : 'Return';
+
   return (
-    <div className="h-80">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart
-          data={data}
-          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-        >
-          <CartesianGrid strokeDasharray="4 4" stroke="#e2e8f0" strokeOpacity={0.8} />
-          <XAxis
-            dataKey="date"
-            tickFormatter={formatDate}
-            tick={{ fontSize: 12, fontFamily: 'Inter' }}
-            stroke="#94a3b8"
-            interval="preserveStartEnd"
-          />
-          <YAxis
-            tickFormatter={formatPercent}
-            tick={{ fontSize: 12, fontFamily: 'Inter' }}
-            stroke="#94a3b8"
-            width={60}
-          />
-          <ReferenceLine y={0} stroke="#9ca3af" strokeDasharray="3 3" />
-          <Tooltip
-            formatter={(value: number | undefined) => [`${(value ?? 0).toFixed(2)}%`]}
-            labelFormatter={(label) => new Date(label).toLocaleDateString()}
-            contentStyle={{
-              backgroundColor: 'white',
-              border: 'none',
-              borderRadius: '12px',
-              boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
-            }}
-          />
-          <Legend />
-          <Line
-            type="monotone"
-            dataKey="portfolioReturn"
-            name="Your Portfolio Return"
-            stroke="#3b82f6"
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
-          />
-          <Line
-            type="monotone"
-            dataKey="counterfactualReturn"
-            name="S&P 500 Return"
-            stroke="#10b981"
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+    <div>
+      <div className="flex justify-end gap-1 mb-2">
+        {RETURN_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => setReturnMode(mode)}
+            className={`py-1 px-3 rounded-lg text-xs font-medium transition-all duration-150 ${
+              returnMode === mode
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="4 4" stroke="#e2e8f0" strokeOpacity={0.8} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatDate}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              tickFormatter={formatPercent}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              width={60}
+            />
+            <ReferenceLine y={0} stroke="#9ca3af" strokeDasharray="3 3" />
+            <Tooltip
+              formatter={(value: number | undefined) => [`${(value ?? 0).toFixed(2)}%`]}
+              labelFormatter={(label) => new Date(label).toLocaleDateString()}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: 'none',
+                borderRadius: '12px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+              }}
+            />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey={isTimeWeighted ? 'portfolioTimeWeightedReturn' : 'portfolioReturn'}
+              name={`Your Portfolio ${returnLabel}`}
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={false}
+              activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
+            />
+            {benchmarks.map((benchmark, index) => (
+              <Line
+                key={benchmark}
+                type="monotone"
+                dataKey={(point: PortfolioDataPoint) => isTimeWeighted
+                  ? point.counterfactualTimeWeightedReturns[benchmark]
+                  : point.counterfactualReturns[benchmark]}
+                name={`${getBenchmarkName(benchmark)} ${returnLabel}`}
+                stroke={getBenchmarkColor(index)}
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 });
@@ -0,0 +1,93 @@
+import { memo } from 'react';
+import type { RiskMetrics, RiskReport } from '../types/RiskMetrics';
+import { getBenchmarkName } from '../config/benchmarks';
+
+interface RiskMetricsPanelProps {
+  data: RiskReport;
+}
+
+const formatRatio = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return '-';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const formatVolatility = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+export const RiskMetricsPanel = memo(function RiskMetricsPanel({ data }: RiskMetricsPanelProps) {
+  const benchmarkName = getBenchmarkName(data.benchmark);
+
+  const rows: { label: string; hint: string; format: (metrics: RiskMetrics) => string }[] = [
+    {
+      label: 'Volatility',
+      hint: 'Annualized standard deviation of daily returns',
+      format: m => formatVolatility(m.volatility),
+    },
+    {
+      label: 'Sharpe ratio',
+      hint: 'Excess return per unit of volatility',
+      format: m => formatRatio(m.sharpeRatio),
+    },
+    {
+      label: 'Sortino ratio',
+      hint: 'Excess return per unit of downside volatility',
+      format: m => formatRatio(m.sortinoRatio),
+    },
+    {
+      label: 'Beta',
+      hint: `Sensitivity to ${benchmarkName}`,
+      format: m => formatRatio(m.beta),
+    },
+    {
+      label: "Jensen's alpha",
+      hint: 'Annual return beyond what beta explains',
+      format: m => formatPercent(m.alpha),
+    },
+  ];
+
+  const columns = [
+    { id: 'portfolio', name: 'Your Portfolio', metrics: data.portfolio },
+    ...Object.entries(data.counterfactuals).map(([id, metrics]) => ({
+      id,
+      name: `Deposits in ${getBenchmarkName(id)}`,
+      metrics,
+    })),
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-5">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-100">
+              <th className="py-2 pr-4 font-medium">Metric</th>
+              {columns.map(column => (
+                <th key={column.id} className="py-2 pr-4 font-medium text-right">{column.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-b border-slate-50">
+                <td className="py-2 pr-4">
+                  <p className="font-medium text-slate-900">{row.label}</p>
+                  <p className="text-xs text-slate-400">{row.hint}</p>
+                </td>
+                {columns.map(column => (
+                  <td key={column.id} className="py-2 pr-4 text-right text-slate-700">
+                    {row.format(column.metrics)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400 mt-3">
+        From daily time-weighted returns, with a {data.riskFreeRate.toFixed(1)}% risk-free rate.
+        Beta and alpha are measured against {benchmarkName}.
+      </p>
+    </div>
+  );
+});
@@ -0,0 +1,153 @@
+import { memo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { RollingReturnSeries } from '../types/RollingReturns';
+import { getBenchmarkColor, getBenchmarkName } from '../config/benchmarks';
+
+interface RollingReturnChartProps {
+  data: RollingReturnSeries[];
+  benchmark: string;
+}
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return '-';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+};
+
+export const RollingReturnChart = memo(function RollingReturnChart({ data, benchmark }: RollingReturnChartProps) {
+  const [windowId, setWindowId] = useState(data[0]?.window.id);
+  const selected = data.find(series => series.window.id === windowId) ?? data[0];
+
+  if (!selected) {
+    return (
+      <div className="h-80 flex items-center justify-center bg-slate-50 rounded-lg">
+        <p className="text-slate-500">No data to display</p>
+      </div>
+    );
+  }
+
+  const benchmarkName = getBenchmarkName(benchmark);
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+  };
+
+  const stats = [
+    { label: `Windows beating ${benchmarkName}`, value: selected.winRate === null ? '-' : `${selected.winRate.toFixed(0)}%` },
+    { label: 'Average excess', value: formatPercent(selected.averageExcess) },
+    { label: 'Best window', value: formatPercent(selected.bestExcess) },
+    { label: 'Worst window', value: formatPercent(selected.worstExcess) },
+  ];
+
+  return (
+    <div>
+      <div className="flex justify-end gap-1 mb-2">
+        {data.map(({ window }) => (
+          <button
+            key={window.id}
+            type="button"
+            onClick={() => setWindowId(window.id)}
+            className={`py-1 px-3 rounded-lg text-xs font-medium transition-all duration-150 ${
+              selected.window.id === window.id
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {window.label}
+          </button>
+        ))}
+      </div>
+
+      {selected.points.length === 0 ? (
+        <div className="h-80 flex items-center justify-center bg-slate-50 rounded-lg">
+          <p className="text-slate-500">The history is shorter than {selected.window.label}</p>
+        </div>
+      ) : (
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={selected.points}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="4 4" stroke="#e2e8f0" strokeOpacity={0.8} />
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatDate}
+                tick={{ fontSize: 12, fontFamily: 'Inter' }}
+                stroke="#94a3b8"
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                tick={{ fontSize: 12, fontFamily: 'Inter' }}
+                stroke="#94a3b8"
+                width={60}
+              />
+              <Tooltip
+                formatter={(value) => [formatPercent(value as number)]}
+                labelFormatter={(label) => `${selected.window.label} to ${new Date(label).toLocaleDateString()}`}
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: 'none',
+                  borderRadius: '12px',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                }}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#94a3b8" strokeDasharray="3 3" />
+              <Line
+                type="monotone"
+                dataKey="excess"
+                name={`Excess over ${benchmarkName}`}
+                stroke="#8b5cf6"
+                strokeWidth={2.5}
+                dot={false}
+                activeDot={{ r: 5, strokeWidth: 2, stroke: 'white' }}
+              />
+              <Line
+                type="monotone"
+                dataKey="portfolio"
+                name="Your Portfolio"
+                stroke="#3b82f6"
+                strokeWidth={1.5}
+                strokeOpacity={0.6}
+                dot={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="benchmark"
+                name={benchmarkName}
+                stroke={getBenchmarkColor(0)}
+                strokeWidth={1.5}
+                strokeOpacity={0.6}
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mt-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-slate-50 rounded-xl p-3">
+            <p className="text-xs text-slate-500">{stat.label}</p>
+            <p className="text-lg font-bold text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      {selected.window.annualized && (
+        <p className="text-xs text-slate-400 mt-2">{selected.window.label} returns are annualized.</p>
+      )}
+    </div>
+  );
+});
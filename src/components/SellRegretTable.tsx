@@ -0,0 +1,98 @@
+import { memo } from 'react';
+import type { SellRegret } from '../types/SellRegret';
+import { getBenchmarkName } from '../config/benchmarks';
+
+interface SellRegretTableProps {
+  data: SellRegret[];
+  benchmark: string;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`;
+
+// Regret is bad news, so a positive number is red
+const regretColor = (value: number) => (value > 0 ? 'text-red-600' : 'text-green-600');
+
+function TotalCard({ label, value, hint }: { label: string; value: string; hint: string }) {
+  return (
+    <div className="bg-slate-50 rounded-xl p-4">
+      <p className="text-sm text-slate-500 mb-1">{label}</p>
+      <p className="text-xl font-bold text-slate-800">{value}</p>
+      <p className="text-xs text-slate-500 mt-1">{hint}</p>
+    </div>
+  );
+}
+
+export const SellRegretTable = memo(function SellRegretTable({ data, benchmark }: SellRegretTableProps) {
+  if (data.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-500">
+        No sells to analyze
+      </div>
+    );
+  }
+
+  const benchmarkName = getBenchmarkName(benchmark);
+  const priced = data.filter((sell): sell is SellRegret & { regret: number } => sell.regret !== null);
+  const totalRegret = priced.reduce((sum, sell) => sum + sell.regret, 0);
+  const helped = priced.filter(sell => sell.regret <= 0).length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm ring-1 ring-slate-100 p-5 space-y-5">
+      <div className="grid gap-4 md:grid-cols-2">
+        <TotalCard
+          label="Exits that paid off"
+          value={`${helped} of ${priced.length}`}
+          hint={`Proceeds in ${benchmarkName} are worth at least as much as the shares would be`}
+        />
+        <TotalCard
+          label="Cost of selling"
+          value={formatSigned(totalRegret)}
+          hint={`Holding every sold share vs moving the proceeds into ${benchmarkName}`}
+        />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-100">
+              <th className="py-2 pr-4 font-medium">Ticker</th>
+              <th className="py-2 pr-4 font-medium">Sold</th>
+              <th className="py-2 pr-4 font-medium text-right">Shares</th>
+              <th className="py-2 pr-4 font-medium text-right">Proceeds</th>
+              <th className="py-2 pr-4 font-medium text-right">If held</th>
+              <th className="py-2 pr-4 font-medium text-right">In {benchmarkName}</th>
+              <th className="py-2 font-medium text-right">Regret</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(sell => (
+              <tr key={sell.tradeId} className="border-b border-slate-50">
+                <td className="py-2 pr-4 font-medium text-slate-900">{sell.ticker}</td>
+                <td className="py-2 pr-4 text-slate-600">{sell.date}</td>
+                <td className="py-2 pr-4 text-right text-slate-600">{sell.shares.toLocaleString()}</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(sell.proceeds)}</td>
+                <td className="py-2 pr-4 text-right">{sell.heldValue === null ? '-' : formatCurrency(sell.heldValue)}</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(sell.redeployedValue)}</td>
+                <td className={`py-2 text-right font-medium ${sell.regret === null ? 'text-slate-400' : regretColor(sell.regret)}`}>
+                  {sell.regret === null ? '-' : formatSigned(sell.regret)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">
+        Values are as of today. Regret is what the sold shares would be worth minus the proceeds invested in
+        {' '}{benchmarkName} on the sell date; sells are marked on the portfolio value chart in the same colors.
+      </p>
+    </div>
+  );
+});
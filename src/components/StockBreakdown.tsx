@@ -1,11 +1,196 @@
-import { memo } from 'react';
-import type { StockBreakdownData } from '../types/StockBreakdownData';
+import { memo, useState } from 'react';
+import type { LotBreakdown, PositionStatus, SectorComparison, StockBreakdownData } from '../types/StockBreakdownData';
+import { getBenchmarkName } from '../config/benchmarks';
 
 interface StockBreakdownProps {
   data: StockBreakdownData[];
+  benchmark: string;
 }
 
-export const StockBreakdown = memo(function StockBreakdown({ data }: StockBreakdownProps) {
+type PositionFilter = PositionStatus | 'all';
+
+const POSITION_FILTERS: { filter: PositionFilter; label: string }[] = [
+  { filter: 'all', label: 'All' },
+  { filter: 'open', label: 'Open' },
+  { filter: 'closed', label: 'Closed' },
+];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (current: number, original: number) => {
+  if (original === 0) return '0%';
+  const percent = ((current - original) / original) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+};
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`;
+
+const gainColor = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+function ValueRow({ label, value, original, gain, muted = false }: {
+  label: string;
+  value: number;
+  original: number;
+  gain: number;
+  muted?: boolean;
+}) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-slate-600">{label}</span>
+      <span className={`font-medium ${muted ? 'text-slate-500' : ''}`}>
+        {formatCurrency(value)}
+        <span className={`ml-1 ${muted ? '' : gainColor(gain)}`}>
+          ({formatPercent(value, original)})
+        </span>
+      </span>
+    </div>
+  );
+}
+
+// Whether the pick beat its own sector, or just rode a sector rally
+function SectorRow({ sector }: { sector: SectorComparison }) {
+  return (
+    <div className="flex justify-between text-sm" title={`The same trades in ${sector.etf}: ${formatCurrency(sector.value)}`}>
+      <span className="text-slate-600">vs {sector.name} ({sector.etf}):</span>
+      <span className={`font-medium ${gainColor(sector.difference)}`}>
+        {formatSigned(sector.difference)}
+      </span>
+    </div>
+  );
+}
+
+// Each buy lot against the benchmark bought the same day, to show which entries worked out
+function LotTable({ lots, benchmarkName }: { lots: LotBreakdown[]; benchmarkName: string }) {
+  return (
+    <table className="w-full text-xs mt-2">
+      <thead>
+        <tr className="text-slate-500 text-left">
+          <th className="py-1 font-medium">Bought</th>
+          <th className="py-1 font-medium text-right">Price</th>
+          <th className="py-1 font-medium text-right">Value</th>
+          <th className="py-1 font-medium text-right">{benchmarkName}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lots.map(lot => (
+          <tr key={lot.id} className="border-t border-slate-100">
+            <td className="py-1 text-slate-600">
+              {lot.acquiredDate}
+              <span className="block text-slate-400">{lot.shares.toLocaleString()} shares</span>
+            </td>
+            <td className="py-1 text-right text-slate-600">{formatCurrency(lot.costPerShare)}</td>
+            <td className={`py-1 text-right font-medium ${gainColor(lot.gain)}`}>
+              {formatCurrency(lot.currentValue)}
+            </td>
+            <td className={`py-1 text-right ${lot.difference >= 0 ? 'text-slate-500' : 'font-medium text-red-600'}`}>
+              {formatCurrency(lot.benchmarkValue)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function OpenPositionDetails({ stock, benchmarkName }: { stock: StockBreakdownData; benchmarkName: string }) {
+  const [showLots, setShowLots] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <ValueRow label="Your investment:" value={stock.currentValue} original={stock.costBasis} gain={stock.gain} />
+      <ValueRow
+        label={`If ${benchmarkName} instead:`}
+        value={stock.benchmarkCurrentValue}
+        original={stock.costBasis}
+        gain={stock.benchmarkGain}
+      />
+
+      {stock.realizedGain !== 0 && (
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-600">Realized from sales:</span>
+          <span className={`font-medium ${gainColor(stock.realizedGain)}`}>
+            {formatSigned(stock.realizedGain)}
+          </span>
+        </div>
+      )}
+
+      <div className="border-t pt-2 mt-2 space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-600">Difference:</span>
+          <span className={`font-bold ${gainColor(stock.difference)}`}>
+            {formatSigned(stock.difference)}
+          </span>
+        </div>
+        {stock.sector && <SectorRow sector={stock.sector} />}
+      </div>
+
+      {stock.lots.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowLots(!showLots)}
+            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            {showLots ? 'Hide lots' : `Show ${stock.lots.length} ${stock.lots.length === 1 ? 'lot' : 'lots'}`}
+          </button>
+          {showLots && <LotTable lots={stock.lots} benchmarkName={benchmarkName} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Compared with the same purchases made in the benchmark, valued when the shares were sold
+function ClosedPositionDetails({ stock, benchmarkName }: { stock: StockBreakdownData; benchmarkName: string }) {
+  const proceeds = stock.costBasis + stock.realizedGain;
+  const benchmarkAtSale = stock.benchmarkValueAtClose ?? 0;
+
+  return (
+    <div className="space-y-2">
+      <ValueRow label="Sold for:" value={proceeds} original={stock.costBasis} gain={stock.realizedGain} />
+      <ValueRow
+        label={`${benchmarkName} at the sale:`}
+        value={benchmarkAtSale}
+        original={stock.costBasis}
+        gain={stock.benchmarkGain}
+      />
+      <ValueRow
+        label={`${benchmarkName} held to today:`}
+        value={stock.benchmarkCurrentValue}
+        original={stock.costBasis}
+        gain={stock.benchmarkCurrentValue - stock.costBasis}
+        muted
+      />
+
+      <div className="border-t pt-2 mt-2 space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-600">Realized gain:</span>
+          <span className={`font-medium ${gainColor(stock.realizedGain)}`}>
+            {formatSigned(stock.realizedGain)}
+          </span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-600">Difference at the sale:</span>
+          <span className={`font-bold ${gainColor(stock.difference)}`}>
+            {formatSigned(stock.difference)}
+          </span>
+        </div>
+        {stock.sector && <SectorRow sector={stock.sector} />}
+      </div>
+    </div>
+  );
+}
+
+export const StockBreakdown = memo(function StockBreakdown({ data, benchmark }: StockBreakdownProps) {
+  const [positionFilter, setPositionFilter] = useState<PositionFilter>('all');
+  const benchmarkName = getBenchmarkName(benchmark);
+
   if (data.length === 0) {
     return (
       <div className="text-center py-8 text-slate-500">
@@ -14,87 +199,76 @@ export const StockBreakdown = memo(function StockBreakdown({ data }: StockBreakd
     );
   }
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-    }).format(value);
-  };
-
-  const formatPercent = (current: number, original: number) => {
-    if (original === 0) return '0%';
-    const percent = ((current - original) / original) * 100;
-    return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
-  };
+  const matchesFilter = (stock: StockBreakdownData, filter: PositionFilter) =>
+    filter === 'all' || stock.status === filter;
+  const visible = data.filter(stock => matchesFilter(stock, positionFilter));
 
   return (
-    <div className="grid gap-5 md:grid-cols-2 lg:grid-cols-3">
-      {data.map((stock) => {
-        const originalInvestment = stock.shares * stock.buyPrice;
-        const outperformed = stock.difference > 0;
-
-        return (
-          <div
-            key={`${stock.ticker}-${stock.buyDate}`}
-            className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100"
+    <div>
+      <div className="flex justify-end gap-1 mb-3">
+        {POSITION_FILTERS.map(({ filter, label }) => (
+          <button
+            key={filter}
+            type="button"
+            onClick={() => setPositionFilter(filter)}
+            className={`py-1 px-3 rounded-lg text-xs font-medium transition-all duration-150 ${
+              positionFilter === filter
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
           >
-            <div className="flex justify-between items-start mb-3">
-              <div>
-                <h3 className="text-lg font-bold text-slate-900">{stock.ticker}</h3>
-                <p className="text-sm text-slate-500">
-                  {stock.shares.toLocaleString()} shares @ {formatCurrency(stock.buyPrice)} avg
-                </p>
-                <p className="text-xs text-slate-400">First bought {stock.buyDate}</p>
-              </div>
-              <div
-                className={`px-2 py-1 rounded text-sm font-medium ${
-                  outperformed
-                    ? 'bg-green-100 text-green-800'
-                    : 'bg-red-100 text-red-800'
-                }`}
-              >
-                {outperformed ? 'Beat SPY' : 'Underperformed'}
-              </div>
-            </div>
+            {label} ({data.filter(stock => matchesFilter(stock, filter)).length})
+          </button>
+        ))}
+      </div>
 
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-slate-600">Your investment:</span>
-                <span className="font-medium">
-                  {formatCurrency(stock.currentValue)}
-                  <span className={`ml-1 ${stock.gain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    ({formatPercent(stock.currentValue, originalInvestment)})
-                  </span>
-                </span>
-              </div>
+      {visible.length === 0 && (
+        <div className="text-center py-8 text-slate-500">
+          No {positionFilter} positions
+        </div>
+      )}
 
-              <div className="flex justify-between text-sm">
-                <span className="text-slate-600">If SPY instead:</span>
-                <span className="font-medium">
-                  {formatCurrency(stock.spyCurrentValue)}
-                  <span className={`ml-1 ${stock.spyGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    ({formatPercent(stock.spyCurrentValue, originalInvestment)})
-                  </span>
-                </span>
-              </div>
+      <div className="grid gap-5 md:grid-cols-2 lg:grid-cols-3">
+        {visible.map((stock) => {
+          const isClosed = stock.status === 'closed';
+          const outperformed = stock.difference > 0;
 
-              <div className="border-t pt-2 mt-2">
-                <div className="flex justify-between text-sm">
-                  <span className="text-slate-600">Difference:</span>
-                  <span
-                    className={`font-bold ${
-                      stock.difference >= 0 ? 'text-green-600' : 'text-red-600'
-                    }`}
-                  >
-                    {stock.difference >= 0 ? '+' : ''}{formatCurrency(stock.difference)}
-                  </span>
+          return (
+            <div
+              key={`${stock.ticker}-${stock.buyDate}`}
+              className={`rounded-xl p-5 shadow-sm ring-1 ring-slate-100 ${isClosed ? 'bg-slate-50' : 'bg-white'}`}
+            >
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h3 className="text-lg font-bold text-slate-900">{stock.ticker}</h3>
+                  <p className="text-sm text-slate-500">
+                    {isClosed
+                      ? `Sold off @ ${formatCurrency(stock.buyPrice)} avg cost`
+                      : `${stock.shares.toLocaleString()} shares @ ${formatCurrency(stock.buyPrice)} avg cost`}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    First bought {stock.buyDate}
+                    {isClosed && `, closed ${stock.closedDate}`}
+                  </p>
+                </div>
+                <div
+                  className={`px-2 py-1 rounded text-sm font-medium ${
+                    outperformed
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-red-100 text-red-800'
+                  }`}
+                >
+                  {outperformed ? `Beat ${benchmarkName}` : 'Underperformed'}
                 </div>
               </div>
+
+              {isClosed
+                ? <ClosedPositionDetails stock={stock} benchmarkName={benchmarkName} />
+                : <OpenPositionDetails stock={stock} benchmarkName={benchmarkName} />}
             </div>
-          </div>
-        );
-      })}
+          );
+        })}
+      </div>
     </div>
   );
 });
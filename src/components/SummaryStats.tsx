@@ -1,11 +1,23 @@
 import { memo } from 'react';
 import type { SummaryData } from '../types/SummaryData';
+import type { OutperformanceSignificance, SignificanceVerdict } from '../types/Significance';
+import { getBenchmarkName } from '../config/benchmarks';
 
 interface SummaryStatsProps {
   data: SummaryData;
+  benchmark: string;
+  significance?: OutperformanceSignificance | null;
 }
 
-export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsProps) {
+const VERDICT_LABELS: Record<SignificanceVerdict, { label: string; className: string }> = {
+  skill: { label: 'Likely skill', className: 'bg-green-100 text-green-800' },
+  noise: { label: 'Likely noise', className: 'bg-slate-100 text-slate-700' },
+  underperformance: { label: 'Likely real underperformance', className: 'bg-red-100 text-red-800' },
+};
+
+export const SummaryStats = memo(function SummaryStats({ data, benchmark, significance = null }: SummaryStatsProps) {
+  const benchmarkName = getBenchmarkName(benchmark);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -20,6 +32,28 @@ export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsPro
     return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
   };
 
+  // Returns on the cost basis are unknown once sells have returned more than was put in
+  const formatReturn = (value: number | null) => {
+    return value === null ? '-' : formatPercent(value);
+  };
+
+  const formatAnnualized = (value: number | null) => {
+    return value === null ? '-' : `${formatPercent(value)} / yr`;
+  };
+
+  const annualizedCards = [
+    {
+      title: 'Annualized Return (XIRR)',
+      portfolio: data.portfolioXirr,
+      counterfactual: data.counterfactualXirr,
+    },
+    {
+      title: 'CAGR (time-weighted)',
+      portfolio: data.portfolioCagr,
+      counterfactual: data.counterfactualCagr,
+    },
+  ];
+
   return (
     <div className="grid gap-5 md:grid-cols-2 lg:grid-cols-3">
       <div className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100">
@@ -34,19 +68,34 @@ export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsPro
         <p className="text-2xl font-bold text-blue-600">
           {formatCurrency(data.totalPortfolioValue)}
         </p>
-        <p className={`text-sm ${data.portfolioReturn >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-          {formatPercent(data.portfolioReturn)} return
+        <p className={`text-sm ${(data.portfolioReturn ?? 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+          {formatReturn(data.portfolioReturn)} return
         </p>
+        {data.cashBalance > 0 && (
+          <p className="text-xs text-slate-500 mt-1">
+            Includes {formatCurrency(data.cashBalance)} uninvested cash
+          </p>
+        )}
+        {data.totalFees > 0 && (
+          <p className="text-xs text-slate-500 mt-1">
+            After {formatCurrency(data.totalFees)} in fees and commissions
+          </p>
+        )}
       </div>
 
       <div className="bg-emerald-50/60 rounded-xl p-5 shadow-sm ring-1 ring-emerald-100">
-        <p className="text-sm text-slate-500 mb-1">Deposits in S&P 500</p>
+        <p className="text-sm text-slate-500 mb-1">Deposits in {benchmarkName}</p>
         <p className="text-2xl font-bold text-green-600">
           {formatCurrency(data.totalCounterfactualValue)}
         </p>
-        <p className={`text-sm ${data.counterfactualReturn >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-          {formatPercent(data.counterfactualReturn)} return
+        <p className={`text-sm ${(data.counterfactualReturn ?? 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+          {formatReturn(data.counterfactualReturn)} return
         </p>
+        {data.expenseRatio > 0 && (
+          <p className="text-xs text-slate-500 mt-1">
+            After a {data.expenseRatio}% / yr expense ratio
+          </p>
+        )}
       </div>
 
       <div className={`rounded-xl p-5 shadow-sm ring-1 ${
@@ -54,7 +103,7 @@ export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsPro
           ? 'bg-emerald-50/60 ring-emerald-100'
           : 'bg-red-50/60 ring-red-100'
       }`}>
-        <p className="text-sm text-slate-500 mb-1">Difference vs S&P 500</p>
+        <p className="text-sm text-slate-500 mb-1">Difference vs {benchmarkName}</p>
         <p
           className={`text-2xl font-bold ${
             isOutperforming ? 'text-green-600' : 'text-red-600'
@@ -68,13 +117,30 @@ export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsPro
             isOutperforming ? 'text-green-500' : 'text-red-500'
           }`}
         >
-          ({data.percentageDifference >= 0 ? '+' : ''}
-          {data.percentageDifference.toFixed(2)}%)
+          ({formatReturn(data.percentageDifference)})
         </p>
+        {significance && (
+          <div
+            className="mt-2 border-t border-slate-200/70 pt-2"
+            title={`Bootstrap of ${significance.days.toLocaleString()} daily time-weighted excess returns, ` +
+              'so deposit timing is left out. It tests day-to-day outperformance, not the dollar difference above.'}
+          >
+            <p className="text-xs text-slate-500 mb-1">
+              Daily time-weighted excess: {formatPercent(significance.annualizedExcess)} / yr
+            </p>
+            <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${VERDICT_LABELS[significance.verdict].className}`}>
+              {VERDICT_LABELS[significance.verdict].label}
+            </span>
+            <p className="text-xs text-slate-500 mt-1">
+              {Math.round(significance.confidenceLevel * 100)}% range {formatPercent(significance.confidenceLow)} to
+              {' '}{formatPercent(significance.confidenceHigh)} / yr, p = {significance.pValue.toFixed(3)}
+            </p>
+          </div>
+        )}
       </div>
 
       <div className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100">
-        <p className="text-sm text-slate-500 mb-1">Best vs S&P</p>
+        <p className="text-sm text-slate-500 mb-1">Best vs {benchmarkName}</p>
         {data.bestPerformer ? (
           <p className="text-xl font-bold text-green-600">
             {data.bestPerformer.ticker}{' '}
@@ -88,7 +154,7 @@ export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsPro
       </div>
 
       <div className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100">
-        <p className="text-sm text-slate-500 mb-1">Worst vs S&P</p>
+        <p className="text-sm text-slate-500 mb-1">Worst vs {benchmarkName}</p>
         {data.worstPerformer ? (
           <p className="text-xl font-bold text-red-600">
             {data.worstPerformer.ticker}{' '}
@@ -100,6 +166,55 @@ export const SummaryStats = memo(function SummaryStats({ data }: SummaryStatsPro
           <p className="text-slate-400">-</p>
         )}
       </div>
+
+      <div className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100">
+        <p className="text-sm text-slate-500 mb-1">Realized / Unrealized Gains</p>
+        <p className={`text-xl font-bold ${data.realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {data.realizedGain >= 0 ? '+' : ''}{formatCurrency(data.realizedGain)}
+          <span className="text-sm font-normal text-slate-500"> realized</span>
+        </p>
+        <p className={`text-sm ${data.unrealizedGain >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+          {data.unrealizedGain >= 0 ? '+' : ''}{formatCurrency(data.unrealizedGain)} unrealized
+        </p>
+      </div>
+
+      {annualizedCards.map((card) => (
+        <div key={card.title} className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100">
+          <p className="text-sm text-slate-500 mb-1">{card.title}</p>
+          <p className={`text-2xl font-bold ${
+            card.portfolio === null || card.portfolio >= 0 ? 'text-slate-800' : 'text-red-600'
+          }`}>
+            {formatAnnualized(card.portfolio)}
+          </p>
+          <p className="text-sm text-slate-500">
+            {benchmarkName}: {formatAnnualized(card.counterfactual)}
+          </p>
+        </div>
+      ))}
+
+      {data.benchmarkComparisons.slice(1).map((comparison) => {
+        const beatBenchmark = comparison.difference > 0;
+        return (
+          <div
+            key={comparison.benchmark}
+            className="bg-white rounded-xl p-5 shadow-sm ring-1 ring-slate-100"
+          >
+            <p className="text-sm text-slate-500 mb-1">
+              Deposits in {getBenchmarkName(comparison.benchmark)}
+            </p>
+            <p className="text-2xl font-bold text-slate-800">
+              {formatCurrency(comparison.counterfactualValue)}
+            </p>
+            <p className={`text-sm ${(comparison.counterfactualReturn ?? 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {formatReturn(comparison.counterfactualReturn)} return
+            </p>
+            <p className={`text-sm font-medium mt-1 ${beatBenchmark ? 'text-green-600' : 'text-red-600'}`}>
+              You {beatBenchmark ? 'beat' : 'trail'} it by {formatCurrency(Math.abs(comparison.difference))}
+              {' '}({formatReturn(comparison.percentageDifference)})
+            </p>
+          </div>
+        );
+      })}
     </div>
   );
 });
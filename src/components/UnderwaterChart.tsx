@@ -0,0 +1,148 @@
+import { memo } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import type { DrawdownPoint, DrawdownReport, DrawdownStats } from '../types/Drawdown';
+import { getBenchmarkColor, getBenchmarkName } from '../config/benchmarks';
+
+interface UnderwaterChartProps {
+  data: DrawdownReport;
+  benchmarks: string[];
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+const formatDays = (days: number | null) => (days === null ? '-' : `${days.toLocaleString()} days`);
+
+function DrawdownStatsCard({ name, stats, color }: { name: string; stats: DrawdownStats; color: string }) {
+  return (
+    <div className="bg-slate-50 rounded-xl p-4">
+      <p className="text-sm font-medium mb-2" style={{ color }}>{name}</p>
+      <p className="text-xl font-bold text-red-600">{formatPercent(stats.maxDrawdown)}</p>
+      <p className="text-xs text-slate-500 mb-2">
+        {stats.peakDate && stats.troughDate
+          ? `Max drawdown, ${stats.peakDate} to ${stats.troughDate}`
+          : 'No drawdown'}
+      </p>
+      <dl className="text-xs text-slate-600 space-y-0.5">
+        <div className="flex justify-between">
+          <dt>Underwater</dt>
+          <dd>{formatDays(stats.durationDays)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt>Recovery</dt>
+          <dd>
+            {stats.recoveryDate
+              ? formatDays(stats.recoveryDays)
+              : stats.peakDate ? 'Not yet recovered' : '-'}
+          </dd>
+        </div>
+        <div className="flex justify-between">
+          <dt>Longest drawdown</dt>
+          <dd>{formatDays(stats.longestDrawdownDays)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt>Current</dt>
+          <dd>{formatPercent(stats.currentDrawdown)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+export const UnderwaterChart = memo(function UnderwaterChart({ data, benchmarks }: UnderwaterChartProps) {
+  if (data.series.length === 0) {
+    return (
+      <div className="h-80 flex items-center justify-center bg-slate-50 rounded-lg">
+        <p className="text-slate-500">No data to display</p>
+      </div>
+    );
+  }
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={data.series}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="4 4" stroke="#e2e8f0" strokeOpacity={0.8} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatDate}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              tickFormatter={formatPercent}
+              tick={{ fontSize: 12, fontFamily: 'Inter' }}
+              stroke="#94a3b8"
+              width={60}
+              domain={['dataMin', 0]}
+            />
+            <Tooltip
+              formatter={(value) => [formatPercent(value as number)]}
+              labelFormatter={(label) => new Date(label).toLocaleDateString()}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: 'none',
+                borderRadius: '12px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+              }}
+            />
+            <Legend />
+            <Area
+              type="monotone"
+              dataKey="portfolio"
+              name="Your Portfolio"
+              stroke="#3b82f6"
+              fill="#3b82f6"
+              fillOpacity={0.15}
+              strokeWidth={2}
+              dot={false}
+            />
+            {benchmarks.map((benchmark, index) => (
+              <Area
+                key={benchmark}
+                type="monotone"
+                dataKey={(point: DrawdownPoint) => point.counterfactuals[benchmark]}
+                name={`Deposits in ${getBenchmarkName(benchmark)}`}
+                stroke={getBenchmarkColor(index)}
+                fill={getBenchmarkColor(index)}
+                fillOpacity={0.08}
+                strokeWidth={1.5}
+                dot={false}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <DrawdownStatsCard name="Your Portfolio" stats={data.portfolio} color="#3b82f6" />
+        {benchmarks.map((benchmark, index) => data.counterfactuals[benchmark] && (
+          <DrawdownStatsCard
+            key={benchmark}
+            name={`Deposits in ${getBenchmarkName(benchmark)}`}
+            stats={data.counterfactuals[benchmark]}
+            color={getBenchmarkColor(index)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
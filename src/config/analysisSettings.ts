@@ -0,0 +1,34 @@
+/**
+ * Defaults for the analysis settings panel.
+ * Price return is the default so trade prices, which are raw closes, line up
+ * with the prices they are compared against.
+ */
+
+import type { AnalysisSettings, ReturnBasis } from '../types/AnalysisSettings';
+import { DEFAULT_BENCHMARK } from './benchmarks';
+import { DEFAULT_LOT_METHOD } from './lotMethods';
+import { DEFAULT_CONTRIBUTION_SCHEDULE } from './contributionSchedules';
+import { createTickerBenchmark } from '../utils/benchmarks';
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  benchmarks: [createTickerBenchmark(DEFAULT_BENCHMARK)],
+  returnBasis: 'price',
+  reinvestDividends: false,
+  lotMethod: DEFAULT_LOT_METHOD,
+  dcaSchedule: DEFAULT_CONTRIBUTION_SCHEDULE,
+  freezeDate: null,
+  expenseRatio: 0,
+};
+
+export const RETURN_BASIS_OPTIONS: { value: ReturnBasis; label: string; description: string }[] = [
+  {
+    value: 'total',
+    label: 'Total return',
+    description: 'Dividend-adjusted prices, as if every dividend were reinvested',
+  },
+  {
+    value: 'price',
+    label: 'Price return',
+    description: 'Raw closing prices; dividends are not included',
+  },
+];
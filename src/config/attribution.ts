@@ -0,0 +1,7 @@
+// Tickers drawn individually in the attribution chart; the rest are summed into "Other"
+export const MAX_ATTRIBUTION_TICKERS = 8;
+
+// Area colors for the charted tickers, largest contribution first
+export const ATTRIBUTION_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16',
+];
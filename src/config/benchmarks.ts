@@ -0,0 +1,41 @@
+/**
+ * Benchmarks offered as one-click choices for the counterfactual.
+ * Any other ticker Yahoo Finance knows about can still be entered by hand.
+ * Several benchmarks can be compared at once; the first one selected is the
+ * primary benchmark used for the per-stock breakdown. Blends such as
+ * "60% VTI / 40% BND" are built from these same tickers (see utils/benchmarks).
+ */
+
+export interface BenchmarkPreset {
+  ticker: string;
+  name: string;
+}
+
+export const DEFAULT_BENCHMARK = 'SPY';
+
+export const BENCHMARK_PRESETS: BenchmarkPreset[] = [
+  { ticker: 'SPY', name: 'S&P 500' },
+  { ticker: 'QQQ', name: 'Nasdaq-100' },
+  { ticker: 'VTI', name: 'Total US Market' },
+  { ticker: 'VXUS', name: 'Total International' },
+  { ticker: 'BND', name: 'Total Bond Market' },
+];
+
+// Line colors for each counterfactual, in selection order (primary first)
+export const BENCHMARK_COLORS = ['#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#64748b'];
+
+/**
+ * Color used to draw a benchmark, given its position in the selection
+ */
+export function getBenchmarkColor(index: number): string {
+  return BENCHMARK_COLORS[index % BENCHMARK_COLORS.length];
+}
+
+/**
+ * Human-readable name for a benchmark, falling back to its id
+ * (the ticker itself, or a description of a blend)
+ */
+export function getBenchmarkName(id: string): string {
+  const preset = BENCHMARK_PRESETS.find(p => p.ticker === id);
+  return preset ? preset.name : id;
+}
@@ -0,0 +1,13 @@
+/**
+ * Schedules offered for the dollar-cost-averaging counterfactual.
+ * Monthly matches how most people set up automatic investing.
+ */
+
+import type { ContributionSchedule } from '../types/Contribution';
+
+export const DEFAULT_CONTRIBUTION_SCHEDULE: ContributionSchedule = 'monthly';
+
+export const CONTRIBUTION_SCHEDULE_OPTIONS: { value: ContributionSchedule; label: string; description: string }[] = [
+  { value: 'monthly', label: 'Monthly', description: 'Equal amounts on the same day each month' },
+  { value: 'biweekly', label: 'Every two weeks', description: 'Equal amounts every 14 days' },
+];
@@ -0,0 +1,15 @@
+/**
+ * Lot matching methods offered in the settings panel.
+ * FIFO is the IRS default when no lots are specified.
+ */
+
+import type { LotMethod } from '../types/TaxLot';
+
+export const DEFAULT_LOT_METHOD: LotMethod = 'fifo';
+
+export const LOT_METHOD_OPTIONS: { value: LotMethod; label: string; description: string }[] = [
+  { value: 'fifo', label: 'FIFO', description: 'First in, first out: oldest lots are sold first' },
+  { value: 'lifo', label: 'LIFO', description: 'Last in, first out: newest lots are sold first' },
+  { value: 'hifo', label: 'HIFO', description: 'Highest cost first, which minimizes realized gains' },
+  { value: 'specific', label: 'Specific ID', description: 'Sells use the lot named in the trade, then FIFO' },
+];
@@ -0,0 +1,27 @@
+/**
+ * Universe the random portfolios pick from: large US companies across every
+ * sector. Prices come through the same API and cache as the portfolio's own
+ * tickers. Today's large caps all survived, so the yardstick leans generous.
+ */
+
+export const UNIVERSE_TICKERS = [
+  'AAPL', 'MSFT', 'NVDA', 'ORCL', 'CSCO', 'INTC', 'ADBE', 'TXN',
+  'GOOGL', 'META', 'NFLX', 'DIS', 'VZ', 'T',
+  'AMZN', 'HD', 'MCD', 'NKE', 'SBUX', 'LOW',
+  'WMT', 'PG', 'KO', 'PEP', 'COST',
+  'XOM', 'CVX', 'COP',
+  'JPM', 'BAC', 'WFC', 'GS', 'V', 'MA',
+  'UNH', 'JNJ', 'PFE', 'MRK', 'ABT', 'LLY',
+  'CAT', 'HON', 'UNP', 'BA', 'GE',
+  'LIN', 'SHW', 'NEM',
+  'PLD', 'AMT',
+  'NEE', 'DUK', 'SO',
+];
+
+export const RANDOM_PORTFOLIO_COUNT = 1000;
+
+// Fixed so the same portfolio always lands in the same percentile
+export const RANDOM_PORTFOLIO_SEED = 7;
+
+// Histogram buckets in the random portfolio chart
+export const RANDOM_PORTFOLIO_BUCKETS = 20;
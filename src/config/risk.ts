@@ -0,0 +1,10 @@
+/**
+ * Inputs to the risk metrics.
+ * The risk-free rate is a fixed long-run estimate of the T-bill yield rather
+ * than a fetched rate series, so Sharpe, Sortino and alpha are comparable
+ * across runs.
+ */
+
+export const ANNUAL_RISK_FREE_RATE = 0.04;
+
+export const TRADING_DAYS_PER_YEAR = 252;
@@ -0,0 +1,12 @@
+/**
+ * Windows offered in the rolling return chart.
+ * The 3-year window is annualized, as rolling multi-year returns usually are.
+ */
+
+import type { RollingWindow } from '../types/RollingReturns';
+
+export const ROLLING_WINDOWS: RollingWindow[] = [
+  { id: '6m', label: '6 months', months: 6, annualized: false },
+  { id: '1y', label: '1 year', months: 12, annualized: false },
+  { id: '3y', label: '3 years', months: 36, annualized: true },
+];
@@ -0,0 +1,100 @@
+/**
+ * Sector of common US stocks, bundled so the per-stock sector comparison works
+ * without another API call. Each sector is measured against its Select Sector
+ * SPDR ETF. Tickers missing from the map (ETFs, funds, small caps) simply get no
+ * sector comparison.
+ */
+
+export interface SectorFund {
+  name: string;
+  etf: string;
+}
+
+export const SECTOR_FUNDS = {
+  technology: { name: 'Technology', etf: 'XLK' },
+  communication: { name: 'Communication Services', etf: 'XLC' },
+  consumerDiscretionary: { name: 'Consumer Discretionary', etf: 'XLY' },
+  consumerStaples: { name: 'Consumer Staples', etf: 'XLP' },
+  energy: { name: 'Energy', etf: 'XLE' },
+  financials: { name: 'Financials', etf: 'XLF' },
+  healthCare: { name: 'Health Care', etf: 'XLV' },
+  industrials: { name: 'Industrials', etf: 'XLI' },
+  materials: { name: 'Materials', etf: 'XLB' },
+  realEstate: { name: 'Real Estate', etf: 'XLRE' },
+  utilities: { name: 'Utilities', etf: 'XLU' },
+} satisfies Record<string, SectorFund>;
+
+export type SectorId = keyof typeof SECTOR_FUNDS;
+
+export const TICKER_SECTORS: Record<string, SectorId> = {
+  // Technology
+  AAPL: 'technology', MSFT: 'technology', NVDA: 'technology', AVGO: 'technology', ORCL: 'technology',
+  CRM: 'technology', ADBE: 'technology', AMD: 'technology', CSCO: 'technology', ACN: 'technology',
+  INTC: 'technology', IBM: 'technology', QCOM: 'technology', TXN: 'technology', INTU: 'technology',
+  NOW: 'technology', AMAT: 'technology', MU: 'technology', LRCX: 'technology', KLAC: 'technology',
+  ADI: 'technology', PANW: 'technology', SNPS: 'technology', CDNS: 'technology', ANET: 'technology',
+  CRWD: 'technology', FTNT: 'technology', MRVL: 'technology', PLTR: 'technology', SHOP: 'technology',
+  SNOW: 'technology', DELL: 'technology', HPQ: 'technology', SMCI: 'technology', TSM: 'technology',
+  ASML: 'technology', SQ: 'technology', TWLO: 'technology', ZM: 'technology', NET: 'technology',
+  // Communication Services
+  GOOGL: 'communication', GOOG: 'communication', META: 'communication', NFLX: 'communication',
+  DIS: 'communication', CMCSA: 'communication', T: 'communication', VZ: 'communication',
+  TMUS: 'communication', CHTR: 'communication', EA: 'communication', TTWO: 'communication',
+  SPOT: 'communication', SNAP: 'communication', PINS: 'communication', RBLX: 'communication',
+  WBD: 'communication', PARA: 'communication', TWTR: 'communication',
+  // Consumer Discretionary
+  AMZN: 'consumerDiscretionary', TSLA: 'consumerDiscretionary', HD: 'consumerDiscretionary',
+  MCD: 'consumerDiscretionary', NKE: 'consumerDiscretionary', LOW: 'consumerDiscretionary',
+  SBUX: 'consumerDiscretionary', BKNG: 'consumerDiscretionary', TJX: 'consumerDiscretionary',
+  CMG: 'consumerDiscretionary', ABNB: 'consumerDiscretionary', MAR: 'consumerDiscretionary',
+  GM: 'consumerDiscretionary', F: 'consumerDiscretionary', RIVN: 'consumerDiscretionary',
+  LULU: 'consumerDiscretionary', EBAY: 'consumerDiscretionary', ETSY: 'consumerDiscretionary',
+  UBER: 'consumerDiscretionary', DASH: 'consumerDiscretionary', GME: 'consumerDiscretionary',
+  NIO: 'consumerDiscretionary', BABA: 'consumerDiscretionary',
+  // Consumer Staples
+  WMT: 'consumerStaples', PG: 'consumerStaples', COST: 'consumerStaples', KO: 'consumerStaples',
+  PEP: 'consumerStaples', PM: 'consumerStaples', MO: 'consumerStaples', MDLZ: 'consumerStaples',
+  CL: 'consumerStaples', TGT: 'consumerStaples', KHC: 'consumerStaples', GIS: 'consumerStaples',
+  KR: 'consumerStaples', STZ: 'consumerStaples', KMB: 'consumerStaples', HSY: 'consumerStaples',
+  // Energy
+  XOM: 'energy', CVX: 'energy', COP: 'energy', EOG: 'energy', SLB: 'energy', OXY: 'energy',
+  PSX: 'energy', MPC: 'energy', VLO: 'energy', KMI: 'energy', WMB: 'energy', HAL: 'energy',
+  DVN: 'energy', BP: 'energy', SHEL: 'energy',
+  // Financials
+  JPM: 'financials', 'BRK-B': 'financials', 'BRK.B': 'financials', V: 'financials', MA: 'financials',
+  BAC: 'financials', WFC: 'financials', GS: 'financials', MS: 'financials', C: 'financials',
+  AXP: 'financials', SCHW: 'financials', BLK: 'financials', SPGI: 'financials', PYPL: 'financials',
+  COF: 'financials', USB: 'financials', PNC: 'financials', CB: 'financials', MMC: 'financials',
+  PGR: 'financials', ICE: 'financials', CME: 'financials', COIN: 'financials', HOOD: 'financials',
+  SOFI: 'financials',
+  // Health Care
+  UNH: 'healthCare', LLY: 'healthCare', JNJ: 'healthCare', ABBV: 'healthCare', MRK: 'healthCare',
+  PFE: 'healthCare', TMO: 'healthCare', ABT: 'healthCare', DHR: 'healthCare', AMGN: 'healthCare',
+  BMY: 'healthCare', GILD: 'healthCare', ISRG: 'healthCare', VRTX: 'healthCare', REGN: 'healthCare',
+  CVS: 'healthCare', MDT: 'healthCare', SYK: 'healthCare', ELV: 'healthCare', CI: 'healthCare',
+  MRNA: 'healthCare', BIIB: 'healthCare', NVO: 'healthCare', ZTS: 'healthCare',
+  // Industrials
+  GE: 'industrials', CAT: 'industrials', HON: 'industrials', UNP: 'industrials', RTX: 'industrials',
+  BA: 'industrials', LMT: 'industrials', DE: 'industrials', UPS: 'industrials', FDX: 'industrials',
+  MMM: 'industrials', GD: 'industrials', NOC: 'industrials', ETN: 'industrials', WM: 'industrials',
+  CSX: 'industrials', NSC: 'industrials', DAL: 'industrials', UAL: 'industrials', AAL: 'industrials',
+  LUV: 'industrials',
+  // Materials
+  LIN: 'materials', SHW: 'materials', APD: 'materials', ECL: 'materials', FCX: 'materials',
+  NEM: 'materials', DOW: 'materials', DD: 'materials', NUE: 'materials', VMC: 'materials',
+  ALB: 'materials',
+  // Real Estate
+  PLD: 'realEstate', AMT: 'realEstate', EQIX: 'realEstate', CCI: 'realEstate', SPG: 'realEstate',
+  PSA: 'realEstate', O: 'realEstate', WELL: 'realEstate', DLR: 'realEstate', VICI: 'realEstate',
+  // Utilities
+  NEE: 'utilities', DUK: 'utilities', SO: 'utilities', D: 'utilities', AEP: 'utilities',
+  EXC: 'utilities', SRE: 'utilities', XEL: 'utilities', PCG: 'utilities', ED: 'utilities',
+};
+
+/**
+ * Sector fund a ticker is compared against, or null when its sector isn't known
+ */
+export function getSectorFund(ticker: string): SectorFund | null {
+  const sector = TICKER_SECTORS[ticker.toUpperCase()];
+  return sector ? SECTOR_FUNDS[sector] : null;
+}
@@ -0,0 +1,16 @@
+/**
+ * Settings for the bootstrap test of outperformance.
+ * The seed is fixed so the same portfolio always gets the same verdict.
+ */
+
+export const BOOTSTRAP_SAMPLES = 2000;
+
+export const BOOTSTRAP_SEED = 20240101;
+
+// Two-sided interval and the p-value below which a difference counts as more than noise
+export const CONFIDENCE_LEVEL = 0.95;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Fewer daily returns than this say nothing useful
+export const MIN_BOOTSTRAP_DAYS = 20;
@@ -3,17 +3,47 @@ import type { Trade } from '../types/Trade';
 import type { PortfolioData } from '../types/PortfolioData';
 import type { StockPrice } from '../types/StockPrice';
 import type { StockSplit } from '../types/StockSplit';
+import type { StockDividend } from '../types/StockDividend';
 import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
 import type { StockBreakdownData } from '../types/StockBreakdownData';
 import type { SummaryData } from '../types/SummaryData';
+import type { CapitalGainsYear } from '../types/CapitalGains';
+import type { RiskReport } from '../types/RiskMetrics';
+import type { OutperformanceSignificance } from '../types/Significance';
+import type { RandomPortfolioRanking } from '../types/RandomPortfolios';
+import type { DrawdownReport } from '../types/Drawdown';
+import type { CalendarYear } from '../types/CalendarReturns';
+import type { RollingReturnSeries } from '../types/RollingReturns';
+import type { AttributionReport } from '../types/Attribution';
+import type { SellRegret } from '../types/SellRegret';
+import type { AnalysisSettings } from '../types/AnalysisSettings';
+import type { CalculationOptions } from '../types/CalculationOptions';
 import { fetchMultipleStocks, fetchStockData, getHighPriceOnDate } from '../utils/stockApi';
 import {
-  calculatePortfolioTimeSeries,
+  calculateDailyTimeSeries,
+  calculateSellRegret,
   calculateStockBreakdown,
   calculateSummary,
+  downsample,
   getDateRange,
+  MAX_CHART_POINTS,
 } from '../utils/calculations';
+import { getBenchmarkTickers } from '../utils/benchmarks';
+import { selectReturnBasis } from '../utils/priceLookup';
+import { buildTaxLots } from '../utils/taxLots';
+import { buildCapitalGainsReport } from '../utils/capitalGains';
+import { calculateRiskReport } from '../utils/risk';
+import { calculateSignificance } from '../utils/significance';
+import { calculateRandomPortfolioRanking } from '../utils/randomPortfolios';
+import { UNIVERSE_TICKERS } from '../config/randomUniverse';
+import { calculateDrawdownReport } from '../utils/drawdown';
+import { calculateCalendarReturns } from '../utils/calendarReturns';
+import { calculateRollingReport } from '../utils/rollingReturns';
+import { calculateAttribution } from '../utils/attribution';
 import { mergeWithHistoricalSplits } from '../config/historicalSplits';
+import { DEFAULT_ANALYSIS_SETTINGS } from '../config/analysisSettings';
+import { ROLLING_WINDOWS } from '../config/rollingWindows';
+import { getSectorFund } from '../config/sectors';
 import { perf } from '../utils/logger';
 
 interface UseStockDataReturn {
@@ -22,7 +52,17 @@ interface UseStockDataReturn {
   timeSeriesData: PortfolioDataPoint[];
   breakdownData: StockBreakdownData[];
   summaryData: SummaryData | null;
-  loadData: (data: PortfolioData) => Promise<void>;
+  capitalGains: CapitalGainsYear[];
+  riskReport: RiskReport | null;
+  significance: OutperformanceSignificance | null;
+  randomPortfolios: RandomPortfolioRanking | null;
+  drawdownReport: DrawdownReport | null;
+  calendarReturns: CalendarYear[];
+  rollingReturns: RollingReturnSeries[];
+  attribution: AttributionReport | null;
+  sellRegret: SellRegret[];
+  settings: AnalysisSettings;
+  loadData: (data: PortfolioData, settings?: AnalysisSettings) => Promise<void>;
   reset: () => void;
 }
 
@@ -32,9 +72,23 @@ export function useStockData(): UseStockDataReturn {
   const [timeSeriesData, setTimeSeriesData] = useState<PortfolioDataPoint[]>([]);
   const [breakdownData, setBreakdownData] = useState<StockBreakdownData[]>([]);
   const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
+  const [capitalGains, setCapitalGains] = useState<CapitalGainsYear[]>([]);
+  const [riskReport, setRiskReport] = useState<RiskReport | null>(null);
+  const [significance, setSignificance] = useState<OutperformanceSignificance | null>(null);
+  const [randomPortfolios, setRandomPortfolios] = useState<RandomPortfolioRanking | null>(null);
+  const [drawdownReport, setDrawdownReport] = useState<DrawdownReport | null>(null);
+  const [calendarReturns, setCalendarReturns] = useState<CalendarYear[]>([]);
+  const [rollingReturns, setRollingReturns] = useState<RollingReturnSeries[]>([]);
+  const [attribution, setAttribution] = useState<AttributionReport | null>(null);
+  const [sellRegret, setSellRegret] = useState<SellRegret[]>([]);
+  const [settings, setSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
 
-  const loadData = useCallback(async (data: PortfolioData) => {
+  const loadData = useCallback(async (
+    data: PortfolioData,
+    selectedSettings: AnalysisSettings = DEFAULT_ANALYSIS_SETTINGS,
+  ) => {
     const { trades, cashFlows } = data;
+    const selectedBenchmarks = selectedSettings.benchmarks;
     if (trades.length === 0) {
       setError('No trades provided');
       return;
@@ -48,17 +102,61 @@ export function useStockData(): UseStockDataReturn {
 
       // Get unique tickers
       const tickers = [...new Set(trades.map(t => t.ticker))];
-      const allTickers = [...tickers, 'SPY'];
+      const benchmarkTickers = getBenchmarkTickers(selectedBenchmarks);
+      const sectorTickers = [...new Set(tickers.flatMap(ticker => getSectorFund(ticker)?.etf ?? []))];
+      const allTickers = [...new Set([...tickers, ...benchmarkTickers, ...sectorTickers, ...UNIVERSE_TICKERS])];
 
       // Get date range
       const { startDate, endDate } = getDateRange(trades);
 
       // Fetch all stock prices and splits
       perf.start('loadData:fetchStocks');
-      const { prices: allPrices, splits: allSplits } = await fetchMultipleStocks(allTickers, startDate, endDate);
+      const { prices: fetchedPrices, splits: allSplits, dividends: allDividends } = await fetchMultipleStocks(allTickers, startDate, endDate);
       perf.end('loadData:fetchStocks');
 
-      const spyPrices = allPrices['SPY'] || [];
+      // Price everything at the raw close or the dividend-adjusted close
+      const allPrices: Record<string, StockPrice[]> = {};
+      for (const [ticker, prices] of Object.entries(fetchedPrices)) {
+        allPrices[ticker] = selectReturnBasis(prices, selectedSettings.returnBasis);
+      }
+
+      const benchmarkPrices: Record<string, StockPrice[]> = {};
+      const benchmarkDividends: Record<string, StockDividend[]> = {};
+      for (const ticker of benchmarkTickers) {
+        const prices = allPrices[ticker] || [];
+        if (prices.length === 0) {
+          throw new Error(`No price data found for benchmark ${ticker}`);
+        }
+        benchmarkPrices[ticker] = prices;
+        benchmarkDividends[ticker] = allDividends[ticker] || [];
+      }
+
+      // Sector ETFs are optional: a missing one just leaves its stocks without a sector comparison
+      const sectorPrices: Record<string, StockPrice[]> = {};
+      for (const ticker of sectorTickers) {
+        sectorPrices[ticker] = allPrices[ticker] || [];
+        benchmarkDividends[ticker] = allDividends[ticker] || [];
+      }
+
+      // Universe tickers are optional too, priced on the same basis as everything else:
+      // the random portfolios just pick from whatever loaded
+      const universePrices: Record<string, StockPrice[]> = {};
+      for (const ticker of UNIVERSE_TICKERS) {
+        if (allPrices[ticker]?.length) universePrices[ticker] = allPrices[ticker];
+      }
+
+      // Adjusted closes already assume reinvestment, so DRIP only applies to price return
+      const calculationOptions: CalculationOptions = {
+        benchmarkDividends,
+        reinvestDividends: selectedSettings.reinvestDividends && selectedSettings.returnBasis === 'price',
+        returnBasis: selectedSettings.returnBasis,
+        lotMethod: selectedSettings.lotMethod,
+        dcaSchedule: selectedSettings.dcaSchedule,
+        freezeDate: selectedSettings.freezeDate ?? undefined,
+        expenseRatio: selectedSettings.expenseRatio,
+        sectorPrices,
+      };
+
       const stockPrices: Record<string, StockPrice[]> = {};
       const stockSplits: Record<string, StockSplit[]> = {};
       for (const ticker of tickers) {
@@ -125,22 +223,67 @@ export function useStockData(): UseStockDataReturn {
 
       // Calculate all data
       perf.start('loadData:calculateTimeSeries');
-      const timeSeries = calculatePortfolioTimeSeries(tradesWithPrices, stockPrices, spyPrices, resolvedCashFlows, stockSplits);
+      const dailySeries = calculateDailyTimeSeries(
+        tradesWithPrices, stockPrices, benchmarkPrices, resolvedCashFlows, stockSplits, selectedBenchmarks,
+        calculationOptions,
+      );
+      const timeSeries = downsample(dailySeries, MAX_CHART_POINTS);
       perf.end('loadData:calculateTimeSeries');
 
+      // Risk metrics and drawdowns need every trading day, not the downsampled chart series
+      const benchmarkIds = selectedBenchmarks.map(b => b.id);
+      perf.start('loadData:calculateRisk');
+      const risk = calculateRiskReport(dailySeries, benchmarkIds);
+      const outperformance = calculateSignificance(dailySeries, benchmarkIds[0]);
+      const drawdowns = calculateDrawdownReport(dailySeries, benchmarkIds, MAX_CHART_POINTS);
+      const calendar = calculateCalendarReturns(dailySeries, benchmarkIds[0]);
+      const rolling = calculateRollingReport(dailySeries, benchmarkIds[0], ROLLING_WINDOWS, MAX_CHART_POINTS);
+      perf.end('loadData:calculateRisk');
+
+      perf.start('loadData:calculateAttribution');
+      const attributionReport = calculateAttribution(
+        tradesWithPrices, stockPrices, benchmarkPrices, stockSplits, selectedBenchmarks[0], dailySeries,
+        MAX_CHART_POINTS, calculationOptions,
+      );
+      perf.end('loadData:calculateAttribution');
+
+      perf.start('loadData:calculateRandomPortfolios');
+      const ranking = calculateRandomPortfolioRanking(tradesWithPrices, resolvedCashFlows, universePrices, dailySeries);
+      perf.end('loadData:calculateRandomPortfolios');
+
       perf.start('loadData:calculateBreakdown');
-      const breakdown = calculateStockBreakdown(tradesWithPrices, stockPrices, spyPrices);
+      const breakdown = calculateStockBreakdown(
+        tradesWithPrices, stockPrices, benchmarkPrices, selectedBenchmarks, calculationOptions,
+      );
+      const sells = calculateSellRegret(
+        tradesWithPrices, stockPrices, benchmarkPrices, stockSplits, selectedBenchmarks, calculationOptions,
+      );
       perf.end('loadData:calculateBreakdown');
 
       perf.start('loadData:calculateSummary');
-      const summary = calculateSummary(breakdown, resolvedCashFlows, tradesWithPrices);
+      const summary = calculateSummary(
+        breakdown, resolvedCashFlows, tradesWithPrices, timeSeries, calculationOptions,
+      );
       perf.end('loadData:calculateSummary');
 
+      const { realizedLots } = buildTaxLots(tradesWithPrices, selectedSettings.lotMethod);
+      const gainsReport = buildCapitalGainsReport(realizedLots);
+
       perf.end('loadData:total');
 
       setTimeSeriesData(timeSeries);
       setBreakdownData(breakdown);
       setSummaryData(summary);
+      setCapitalGains(gainsReport);
+      setRiskReport(risk);
+      setSignificance(outperformance);
+      setRandomPortfolios(ranking);
+      setDrawdownReport(drawdowns);
+      setCalendarReturns(calendar);
+      setRollingReturns(rolling);
+      setAttribution(attributionReport);
+      setSellRegret(sells);
+      setSettings(selectedSettings);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load stock data');
     } finally {
@@ -152,6 +295,15 @@ export function useStockData(): UseStockDataReturn {
     setTimeSeriesData([]);
     setBreakdownData([]);
     setSummaryData(null);
+    setCapitalGains([]);
+    setRiskReport(null);
+    setSignificance(null);
+    setRandomPortfolios(null);
+    setDrawdownReport(null);
+    setCalendarReturns([]);
+    setRollingReturns([]);
+    setAttribution(null);
+    setSellRegret([]);
     setError(null);
   }, []);
 
@@ -161,6 +313,16 @@ export function useStockData(): UseStockDataReturn {
     timeSeriesData,
     breakdownData,
     summaryData,
+    capitalGains,
+    riskReport,
+    significance,
+    randomPortfolios,
+    drawdownReport,
+    calendarReturns,
+    rollingReturns,
+    attribution,
+    sellRegret,
+    settings,
     loadData,
     reset,
   };
@@ -0,0 +1,17 @@
+import type { Benchmark } from './Benchmark';
+import type { LotMethod } from './TaxLot';
+import type { ContributionSchedule } from './Contribution';
+
+// 'price' values holdings at the raw close; 'total' uses the dividend-adjusted close,
+// which treats every dividend as reinvested
+export type ReturnBasis = 'price' | 'total';
+
+export interface AnalysisSettings {
+  benchmarks: Benchmark[]; // Primary benchmark first
+  returnBasis: ReturnBasis;
+  reinvestDividends: boolean; // DRIP for benchmarks; only applies to price return
+  lotMethod: LotMethod;
+  dcaSchedule: ContributionSchedule;
+  freezeDate: string | null; // Buy-and-hold snapshot date; null for the end of the first trade's month
+  expenseRatio: number; // Annual benchmark fund fee in percent, e.g. 0.09 for SPY
+}
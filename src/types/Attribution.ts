@@ -0,0 +1,19 @@
+export interface AttributionPoint {
+  date: string;
+  contributions: Record<string, number>; // Excess dollar gain to date, keyed by ticker
+  cashAndTiming: number; // Uninvested cash and deposit timing: the rest of the total difference
+}
+
+export interface TickerAttribution {
+  ticker: string;
+  contribution: number; // On the last day
+  closed: boolean; // Sold off entirely
+}
+
+export interface AttributionReport {
+  benchmark: string; // Primary benchmark id the excess is measured against
+  tickers: TickerAttribution[]; // Largest contribution first
+  cashAndTiming: number; // On the last day
+  totalDifference: number; // Portfolio value minus counterfactual value on the last day
+  series: AttributionPoint[]; // Cumulative contributions over time, downsampled for the chart
+}
@@ -0,0 +1,12 @@
+export type RebalanceFrequency = 'none' | 'monthly' | 'quarterly' | 'annually';
+
+export interface BenchmarkComponent {
+  ticker: string;
+  weight: number; // Fraction of each contribution, e.g. 0.6 for 60%
+}
+
+export interface Benchmark {
+  id: string; // Display label and key into per-benchmark results, e.g. 'SPY' or '60% VTI / 40% BND (quarterly)'
+  components: BenchmarkComponent[];
+  rebalance: RebalanceFrequency;
+}
@@ -0,0 +1,7 @@
+export interface BenchmarkComparison {
+  benchmark: string;
+  counterfactualValue: number;
+  counterfactualReturn: number | null; // Null when there is no cost basis left
+  difference: number;
+  percentageDifference: number | null;
+}
@@ -0,0 +1,16 @@
+import type { StockDividend } from './StockDividend';
+import type { StockPrice } from './StockPrice';
+import type { ContributionSchedule } from './Contribution';
+import type { LotMethod } from './TaxLot';
+import type { ReturnBasis } from './AnalysisSettings';
+
+export interface CalculationOptions {
+  benchmarkDividends?: Record<string, StockDividend[]>; // Keyed by ticker
+  reinvestDividends?: boolean; // Reinvest benchmarkDividends into more benchmark shares (DRIP)
+  returnBasis?: ReturnBasis; // Which close the prices are at; 'price' by default
+  lotMethod?: LotMethod; // How sells are matched to buy lots; FIFO by default
+  dcaSchedule?: ContributionSchedule; // For the dollar-cost-averaging counterfactual; monthly by default
+  freezeDate?: string; // Buy-and-hold snapshot date; the end of the first trade's month by default
+  expenseRatio?: number; // Annual benchmark fee in percent, charged daily on every benchmark counterfactual
+  sectorPrices?: Record<string, StockPrice[]>; // Sector ETF prices keyed by ticker, for the per-stock comparison
+}
@@ -0,0 +1,11 @@
+export interface CalendarReturn {
+  portfolio: number; // Time-weighted return over the period, in percent
+  benchmark: number;
+  difference: number; // Portfolio minus benchmark, in percentage points
+}
+
+export interface CalendarYear {
+  year: number;
+  months: (CalendarReturn | null)[]; // January first; null for months outside the series
+  annual: CalendarReturn;
+}
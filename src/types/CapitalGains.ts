@@ -0,0 +1,27 @@
+// Short-term: held one year or less. Long-term: held more than one year.
+export type HoldingTerm = 'short' | 'long';
+
+export interface CapitalGainRow {
+  ticker: string;
+  acquiredDate: string;
+  soldDate: string;
+  shares: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  holdingDays: number;
+  term: HoldingTerm;
+}
+
+export interface CapitalGainsTotals {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+export interface CapitalGainsYear {
+  year: number; // Tax year the shares were sold in
+  rows: CapitalGainRow[];
+  shortTerm: CapitalGainsTotals;
+  longTerm: CapitalGainsTotals;
+}
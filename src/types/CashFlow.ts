@@ -1,9 +1,9 @@
-export type CashFlowType = 'deposit' | 'vest' | 'dividend' | 'capgain' | 'interest';
+export type CashFlowType = 'deposit' | 'vest' | 'dividend' | 'capgain' | 'interest' | 'fee';
 
 export interface CashFlow {
   id: string;
   date: string;
-  amount: number;
+  amount: number; // Always positive; fees are taken out, everything else is money in
   type: CashFlowType;
   ticker?: string; // For dividends, which stock paid it
 }
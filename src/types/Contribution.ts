@@ -0,0 +1,7 @@
+export interface Contribution {
+  date: string;
+  amount: number; // Negative for withdrawals (e.g. sell proceeds)
+}
+
+// Fixed schedule for the dollar-cost-averaging counterfactual
+export type ContributionSchedule = 'monthly' | 'biweekly';
@@ -0,0 +1,22 @@
+export interface DrawdownPoint {
+  date: string;
+  portfolio: number; // Percent below the previous peak (0 at a new high, negative below it)
+  counterfactuals: Record<string, number>; // Keyed by benchmark id
+}
+
+export interface DrawdownStats {
+  maxDrawdown: number; // Deepest drawdown, in percent (0 or negative)
+  peakDate: string | null; // High before the deepest drawdown
+  troughDate: string | null;
+  recoveryDate: string | null; // First day back at the peak; null if not yet recovered
+  durationDays: number | null; // Peak to recovery, or to the last day if still underwater
+  recoveryDays: number | null; // Trough to recovery; null if not yet recovered
+  longestDrawdownDays: number; // Longest time spent below a previous peak
+  currentDrawdown: number; // In percent, on the last day
+}
+
+export interface DrawdownReport {
+  series: DrawdownPoint[]; // For the underwater chart
+  portfolio: DrawdownStats;
+  counterfactuals: Record<string, DrawdownStats>; // Keyed by benchmark id
+}
@@ -1,8 +1,14 @@
 export interface PortfolioDataPoint {
   date: string;
-  portfolioValue: number;
-  counterfactualValue: number;
+  portfolioValue: number; // Holdings plus uninvested cash
+  cashBalance: number; // Uninvested cash (0 when the export has no deposits)
+  buyAndHoldValue: number; // Holdings frozen at the freeze date, plus later deposits spread over them
+  counterfactualValues: Record<string, number>; // Keyed by benchmark id
+  dcaValue: number | null; // Same total contributions in the primary benchmark on a fixed schedule; null when none went in on balance
+  lumpSumValue: number | null; // Same total contributions in the primary benchmark all on the first trade date; null likewise
   totalDeposits: number;
-  portfolioReturn: number;
-  counterfactualReturn: number;
+  portfolioReturn: number | null; // Null on days with no cost basis, after sells returned more than was put in
+  counterfactualReturns: Record<string, number | null>; // Keyed by benchmark id
+  portfolioTimeWeightedReturn: number; // Chain-linked across cash flows, in percent
+  counterfactualTimeWeightedReturns: Record<string, number>; // Keyed by benchmark id
 }
@@ -0,0 +1,18 @@
+export interface RandomPortfolioBucket {
+  from: number; // Ending value range
+  to: number;
+  count: number;
+}
+
+export interface RandomPortfolioRanking {
+  simulations: number;
+  stocksPerPortfolio: number; // Same number of stocks as the actual portfolio traded
+  universeSize: number; // Universe tickers with prices from the first deposit on
+  asOf: string; // Last day of the portfolio the bundled universe prices cover
+  portfolioValue: number; // The actual portfolio on that day
+  percentile: number; // Share of random portfolios that ended lower, in percent
+  median: number;
+  low: number; // 5th percentile ending value
+  high: number; // 95th percentile ending value
+  histogram: RandomPortfolioBucket[];
+}
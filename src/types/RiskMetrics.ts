@@ -0,0 +1,14 @@
+export interface RiskMetrics {
+  volatility: number | null; // Annualized standard deviation of daily returns, in percent
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  beta: number | null; // Against the primary benchmark
+  alpha: number | null; // Jensen's alpha against the primary benchmark, annualized, in percent
+}
+
+export interface RiskReport {
+  benchmark: string; // Primary benchmark id that beta and alpha are measured against
+  riskFreeRate: number; // Annual, in percent
+  portfolio: RiskMetrics;
+  counterfactuals: Record<string, RiskMetrics>; // Keyed by benchmark id
+}
@@ -0,0 +1,22 @@
+export interface RollingWindow {
+  id: string;
+  label: string;
+  months: number;
+  annualized: boolean; // Windows longer than a year are shown per year
+}
+
+export interface RollingReturnPoint {
+  date: string; // End of the window
+  portfolio: number; // Time-weighted return over the window, in percent
+  benchmark: number;
+  excess: number; // Portfolio minus benchmark, in percentage points
+}
+
+export interface RollingReturnSeries {
+  window: RollingWindow;
+  points: RollingReturnPoint[];
+  winRate: number | null; // Share of windows the portfolio beat the benchmark, in percent
+  averageExcess: number | null;
+  bestExcess: number | null;
+  worstExcess: number | null;
+}
@@ -0,0 +1,12 @@
+// One sell trade against keeping the shares, and against putting the proceeds in the benchmark
+export interface SellRegret {
+  tradeId: string;
+  ticker: string;
+  date: string;
+  shares: number; // As sold, before any later splits
+  price: number;
+  proceeds: number;
+  heldValue: number | null; // The sold shares valued today, split-adjusted and on the benchmark's dividend basis; null without prices
+  redeployedValue: number; // The proceeds invested in the primary benchmark on the sell date, valued today
+  regret: number | null; // heldValue - redeployedValue: positive when holding would have done better
+}
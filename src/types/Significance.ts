@@ -0,0 +1,13 @@
+// 'skill' and 'underperformance' are differences unlikely to be chance; 'noise' is anything else
+export type SignificanceVerdict = 'skill' | 'noise' | 'underperformance';
+
+export interface OutperformanceSignificance {
+  benchmark: string; // Primary benchmark id
+  days: number; // Daily excess returns resampled
+  annualizedExcess: number; // Mean daily excess return x trading days, in percent
+  confidenceLow: number; // Bounds of the bootstrap interval for annualizedExcess, in percent
+  confidenceHigh: number;
+  confidenceLevel: number; // e.g. 0.95
+  pValue: number; // Two-sided: chance of an excess this far from zero if the true excess were zero
+  verdict: SignificanceVerdict;
+}
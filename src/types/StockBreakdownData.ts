@@ -1,13 +1,49 @@
+// Open positions still hold shares; closed ones were sold off entirely
+export type PositionStatus = 'open' | 'closed';
+
+// One buy lot still held, compared with the primary benchmark bought the same day
+export interface LotBreakdown {
+  id: string; // The buy trade that opened the lot
+  acquiredDate: string;
+  shares: number; // Shares still held
+  costPerShare: number;
+  costBasis: number;
+  currentValue: number;
+  benchmarkValue: number; // Same cost in the primary benchmark on the buy date, valued today
+  gain: number;
+  benchmarkGain: number;
+  difference: number;
+}
+
+// The same trades made in the position's sector ETF instead
+export interface SectorComparison {
+  name: string; // Sector name
+  etf: string;
+  value: number; // Valued today while open, on the sell dates once closed
+  gain: number;
+  difference: number; // Position gain minus the sector gain
+}
+
 export interface StockBreakdownData {
   ticker: string;
+  status: PositionStatus;
   shares: number;
   buyDate: string;
-  buyPrice: number;
+  buyPrice: number; // Average cost of the open lots (of the sold lots once closed)
   currentPrice: number;
+  currentPriceDate: string; // Date of currentPrice
   currentValue: number;
-  spyShares: number;
-  spyCurrentValue: number;
-  gain: number;
-  spyGain: number;
+  benchmarkShares: number; // Primary benchmark; 0 when it is a blend of several tickers
+  benchmarkCurrentValue: number; // For closed positions, the matching purchases held until today
+  benchmarkValueAtClose: number | null; // Matching purchases valued on their sell dates; null while open
+  closedDate: string | null; // Last sell of a closed position
+  benchmarkValues: Record<string, number>; // Current value in every benchmark, keyed by benchmark id
+  costBasis: number; // Cost of the open lots (of the sold lots once closed)
+  unrealizedGain: number;
+  realizedGain: number; // From sells matched to lots
+  gain: number; // Unrealized + realized
+  benchmarkGain: number; // For closed positions, as of the sell dates
   difference: number;
+  lots: LotBreakdown[]; // Open lots, oldest first; empty once closed
+  sector: SectorComparison | null; // Null when the ticker's sector or its ETF prices are unknown
 }
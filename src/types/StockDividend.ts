@@ -0,0 +1,5 @@
+export interface StockDividend {
+  date: string; // Ex-dividend date
+  ticker: string;
+  amount: number; // Cash per share, on the same split-adjusted basis as the close
+}
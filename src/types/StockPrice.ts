@@ -1,5 +1,7 @@
 export interface StockPrice {
   date: string;
-  price: number;
+  price: number; // The price calculations use: close or adjClose, depending on the return basis
+  close?: number; // Split-adjusted close
+  adjClose?: number; // Split- and dividend-adjusted close
   high?: number;
 }
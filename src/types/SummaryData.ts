@@ -1,11 +1,23 @@
+import type { BenchmarkComparison } from './BenchmarkComparison';
+
 export interface SummaryData {
   totalCostBasis: number;
-  totalPortfolioValue: number;
-  totalCounterfactualValue: number;
-  portfolioReturn: number;
-  counterfactualReturn: number;
+  totalPortfolioValue: number; // Includes uninvested cash
+  cashBalance: number;
+  realizedGain: number; // From sells matched to tax lots, including closed positions
+  unrealizedGain: number; // On the open lots
+  totalCounterfactualValue: number; // Primary benchmark
+  portfolioReturn: number | null; // Null when there is no cost basis left to measure against
+  counterfactualReturn: number | null;
   totalDifference: number;
-  percentageDifference: number;
+  percentageDifference: number | null;
+  benchmarkComparisons: BenchmarkComparison[]; // One per benchmark, primary first
+  portfolioXirr: number | null; // Annualized money-weighted return, in percent
+  counterfactualXirr: number | null;
+  portfolioCagr: number | null; // Annualized time-weighted return, in percent
+  counterfactualCagr: number | null;
+  totalFees: number; // Trade commissions and fees plus fees charged to the account
+  expenseRatio: number; // Charged on the benchmarks, percent a year
   bestPerformer: { ticker: string; difference: number } | null;
   worstPerformer: { ticker: string; difference: number } | null;
 }
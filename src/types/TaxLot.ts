@@ -0,0 +1,21 @@
+// How sells are matched to the buy lots they close
+export type LotMethod = 'fifo' | 'lifo' | 'hifo' | 'specific';
+
+export interface TaxLot {
+  id: string; // The buy trade that opened the lot
+  ticker: string;
+  acquiredDate: string;
+  shares: number; // Shares still held
+  costPerShare: number;
+}
+
+export interface RealizedLot {
+  lotId: string;
+  ticker: string;
+  acquiredDate: string;
+  soldDate: string;
+  shares: number;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+}
@@ -7,4 +7,6 @@ export interface Trade {
   shares: number;
   price?: number;
   type: TradeType;
+  fees?: number; // Commissions and fees paid on the trade, in dollars
+  lotId?: string; // Sells only: the buy trade whose lot to sell from (specific-ID matching)
 }
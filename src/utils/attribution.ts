@@ -0,0 +1,127 @@
+// Performance attribution: split the portfolio's excess over the benchmark across the tickers that produced it
+
+import type { Trade } from '../types/Trade';
+import type { StockPrice } from '../types/StockPrice';
+import type { StockSplit } from '../types/StockSplit';
+import type { Benchmark } from '../types/Benchmark';
+import type { Contribution } from '../types/Contribution';
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { CalculationOptions } from '../types/CalculationOptions';
+import type { AttributionPoint, AttributionReport, TickerAttribution } from '../types/Attribution';
+import { buildUnadjustedPriceMap, getUnadjustedPriceOnOrBefore } from './priceLookup';
+import { simulateBenchmark } from './benchmarks';
+import { downsample, getReinvestedDividends, getTradeCashAmount } from './calculations';
+
+/**
+ * Each ticker's excess dollar gain over the benchmark on every day of the daily series.
+ *
+ * A ticker's trades are mirrored in the benchmark: every buy buys the same
+ * dollar amount of it and every sell sells the same amount. The ticker's excess
+ * is then its holding value minus the value of that mirror position (the cash
+ * moved by the trades cancels out). Buys and sells are simulated separately and
+ * subtracted, so the mirror can go below zero when a winner is sold for more
+ * than the benchmark position would be worth - which is exactly the
+ * outperformance to attribute.
+ *
+ * The ticker excesses add up to holdings minus a trade-funded benchmark; what is
+ * left of the total difference (uninvested cash, and deposits going into the
+ * benchmark on different days than the trades) is reported as cash and timing.
+ */
+export function calculateAttribution(
+  trades: Trade[],
+  stockPrices: Record<string, StockPrice[]>,
+  benchmarkPrices: Record<string, StockPrice[]>,
+  splits: Record<string, StockSplit[]>,
+  benchmark: Benchmark,
+  dailySeries: PortfolioDataPoint[],
+  maxPoints: number,
+  options: CalculationOptions = {}
+): AttributionReport {
+  const dates = dailySeries.map(p => p.date);
+  const reinvestedDividends = getReinvestedDividends(options);
+  const expenseRatio = options.expenseRatio ?? 0;
+  const tickers = [...new Set(trades.map(t => t.ticker))];
+
+  const contributionSeries: Record<string, number[]> = {};
+  const closedTickers = new Set<string>();
+  for (const ticker of tickers) {
+    const tickerTrades = trades
+      .filter(t => t.ticker === ticker)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const tickerPrices = stockPrices[ticker] || [];
+    const tickerSplits = splits[ticker] || [];
+    const priceMap = buildUnadjustedPriceMap(tickerPrices, tickerSplits);
+
+    const buys: Contribution[] = [];
+    const sells: Contribution[] = [];
+    for (const trade of tickerTrades) {
+      // Buys cost the price plus fees; sells bring in the proceeds less fees
+      const cash = getTradeCashAmount(trade);
+      const amount = trade.type === 'sell' ? -cash : cash;
+      if (amount <= 0) continue;
+      (trade.type === 'sell' ? sells : buys).push({ date: trade.date, amount });
+    }
+    const boughtBenchmark = simulateBenchmark(
+      benchmark, benchmarkPrices, buys, dates, reinvestedDividends, expenseRatio
+    );
+    const soldBenchmark = simulateBenchmark(
+      benchmark, benchmarkPrices, sells, dates, reinvestedDividends, expenseRatio
+    );
+
+    // Raw share count, as in the portfolio time series (split rows are zero-price buys)
+    let shares = 0;
+    let tradeIndex = 0;
+    contributionSeries[ticker] = dates.map((date, dayIndex) => {
+      while (tradeIndex < tickerTrades.length && tickerTrades[tradeIndex].date <= date) {
+        const trade = tickerTrades[tradeIndex];
+        shares += trade.type === 'sell' ? -trade.shares : trade.shares;
+        tradeIndex++;
+      }
+      const price = priceMap.get(date) ?? getUnadjustedPriceOnOrBefore(tickerPrices, tickerSplits, date) ?? 0;
+      const holdingValue = shares > 0 ? shares * price : 0;
+      const mirrorValue = (boughtBenchmark[dayIndex] ?? 0) - (soldBenchmark[dayIndex] ?? 0);
+      return holdingValue - mirrorValue;
+    });
+
+    const finalShares = tickerTrades.reduce((sum, t) => sum + (t.type === 'sell' ? -t.shares : t.shares), 0);
+    if (finalShares <= 1e-9) {
+      closedTickers.add(ticker);
+    }
+  }
+
+  const series: AttributionPoint[] = dailySeries.map((point, dayIndex) => {
+    const contributions: Record<string, number> = {};
+    let total = 0;
+    for (const ticker of tickers) {
+      const value = contributionSeries[ticker][dayIndex];
+      contributions[ticker] = Math.round(value * 100) / 100;
+      total += value;
+    }
+    const difference = point.portfolioValue - (point.counterfactualValues[benchmark.id] ?? 0);
+    return {
+      date: point.date,
+      contributions,
+      cashAndTiming: Math.round((difference - total) * 100) / 100,
+    };
+  });
+
+  const last = series[series.length - 1];
+  const lastPoint = dailySeries[dailySeries.length - 1];
+  const tickerTotals: TickerAttribution[] = tickers
+    .map(ticker => ({
+      ticker,
+      contribution: last?.contributions[ticker] ?? 0,
+      closed: closedTickers.has(ticker),
+    }))
+    .sort((a, b) => b.contribution - a.contribution);
+
+  return {
+    benchmark: benchmark.id,
+    tickers: tickerTotals,
+    cashAndTiming: last?.cashAndTiming ?? 0,
+    totalDifference: lastPoint
+      ? Math.round((lastPoint.portfolioValue - (lastPoint.counterfactualValues[benchmark.id] ?? 0)) * 100) / 100
+      : 0,
+    series: downsample(series, maxPoints),
+  };
+}
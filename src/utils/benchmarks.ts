@@ -0,0 +1,171 @@
+// Benchmark definitions and the simulation that turns contributions into benchmark holdings
+
+import type { Benchmark, RebalanceFrequency } from '../types/Benchmark';
+import type { Contribution } from '../types/Contribution';
+import type { StockPrice } from '../types/StockPrice';
+import type { StockDividend } from '../types/StockDividend';
+import { getPriceOnOrBefore } from './priceLookup';
+
+const MS_PER_DAY = 86400000;
+
+const REBALANCE_LABELS: Record<RebalanceFrequency, string> = {
+  none: 'never rebalanced',
+  monthly: 'monthly',
+  quarterly: 'quarterly',
+  annually: 'annually',
+};
+
+// A plain single-ticker benchmark, e.g. SPY
+export function createTickerBenchmark(ticker: string): Benchmark {
+  const upper = ticker.toUpperCase();
+  return { id: upper, components: [{ ticker: upper, weight: 1 }], rebalance: 'none' };
+}
+
+// Parse a blend like "60% VTI / 40% BND" (or "60 VTI, 40 BND") into a benchmark
+export function parseBlendedBenchmark(spec: string, rebalance: RebalanceFrequency): Benchmark {
+  const parts = spec.split(/[/,+]/).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Enter a blend like "60% VTI / 40% BND"');
+  }
+
+  const components = parts.map(part => {
+    const match = part.match(/^(\d+(?:\.\d+)?)\s*%?\s+([A-Za-z.^-]+)$/);
+    if (!match) {
+      throw new Error(`Could not read "${part}" - use the form "60% VTI"`);
+    }
+    return { ticker: match[2].toUpperCase(), weight: parseFloat(match[1]) / 100 };
+  });
+
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  if (Math.abs(totalWeight - 1) > 0.0001) {
+    throw new Error(`Weights must add up to 100% (got ${Math.round(totalWeight * 10000) / 100}%)`);
+  }
+  if (new Set(components.map(c => c.ticker)).size !== components.length) {
+    throw new Error('Each ticker can only appear once in a blend');
+  }
+
+  if (components.length === 1) {
+    return createTickerBenchmark(components[0].ticker);
+  }
+
+  const label = components
+    .map(c => `${Math.round(c.weight * 10000) / 100}% ${c.ticker}`)
+    .join(' / ');
+  return { id: `${label} (${REBALANCE_LABELS[rebalance]})`, components, rebalance };
+}
+
+// Every ticker whose prices are needed to simulate the given benchmarks
+export function getBenchmarkTickers(benchmarks: Benchmark[]): string[] {
+  return [...new Set(benchmarks.flatMap(b => b.components.map(c => c.ticker)))];
+}
+
+// Identifies the rebalance period a date falls in; a change of key means "rebalance now"
+function getRebalancePeriod(date: string, rebalance: RebalanceFrequency): string {
+  const year = date.slice(0, 4);
+  const month = parseInt(date.slice(5, 7), 10);
+  switch (rebalance) {
+    case 'monthly': return `${year}-${month}`;
+    case 'quarterly': return `${year}-Q${Math.ceil(month / 3)}`;
+    case 'annually': return year;
+    case 'none': return '';
+  }
+}
+
+/**
+ * Simulate holding a benchmark on each of the given dates.
+ *
+ * Every contribution is split across the components by weight and converted
+ * to shares at the price on (or before) the contribution date. Negative
+ * contributions sell shares the same way. On the first date of each new
+ * rebalance period the holdings are reset to the target weights.
+ *
+ * Dividends, when given, are reinvested (DRIP) into more shares of the same
+ * component at the close on their ex-date.
+ *
+ * An expense ratio (percent a year) is charged every calendar day, as a fund
+ * takes it out of its net asset value.
+ *
+ * Returns the benchmark value on each date, never below zero.
+ */
+export function simulateBenchmark(
+  benchmark: Benchmark,
+  prices: Record<string, StockPrice[]>,
+  contributions: Contribution[],
+  dates: string[],
+  dividends: Record<string, StockDividend[]> = {},
+  expenseRatio = 0
+): number[] {
+  const sortedContributions = [...contributions].sort((a, b) => a.date.localeCompare(b.date));
+  const components = benchmark.components;
+
+  const priceMaps: Record<string, Map<string, number>> = {};
+  const shares: Record<string, number> = {};
+  const sortedDividends: Record<string, StockDividend[]> = {};
+  const dividendIndex: Record<string, number> = {};
+  for (const { ticker } of components) {
+    priceMaps[ticker] = new Map((prices[ticker] || []).map(p => [p.date, p.price]));
+    shares[ticker] = 0;
+    sortedDividends[ticker] = [...(dividends[ticker] || [])].sort((a, b) => a.date.localeCompare(b.date));
+    dividendIndex[ticker] = 0;
+  }
+
+  const priceOn = (ticker: string, date: string): number =>
+    priceMaps[ticker].get(date) ?? getPriceOnOrBefore(prices[ticker] || [], date) ?? 0;
+
+  // Shares are held before fees and scaled down by the fees charged since the
+  // first date, so the charge is exact however far apart the dates are
+  const dailyKeep = Math.pow(1 - expenseRatio / 100, 1 / 365);
+  const origin = dates.length > 0 ? Date.parse(`${dates[0]}T00:00:00Z`) : 0;
+  const feeFactor = (date: string): number =>
+    Math.pow(dailyKeep, (Date.parse(`${date}T00:00:00Z`) - origin) / MS_PER_DAY);
+
+  const values: number[] = [];
+  let contributionIndex = 0;
+  let lastPeriod: string | null = null;
+
+  for (const date of dates) {
+    // Reinvest dividends on shares held going into their ex-date
+    for (const { ticker } of components) {
+      const tickerDividends = sortedDividends[ticker];
+      while (dividendIndex[ticker] < tickerDividends.length && tickerDividends[dividendIndex[ticker]].date <= date) {
+        const price = priceOn(ticker, date);
+        if (price > 0) {
+          shares[ticker] += (shares[ticker] * tickerDividends[dividendIndex[ticker]].amount) / price;
+        }
+        dividendIndex[ticker]++;
+      }
+    }
+
+    // Rebalance back to target weights at the start of each new period
+    const period = getRebalancePeriod(date, benchmark.rebalance);
+    if (benchmark.rebalance !== 'none' && lastPeriod !== null && period !== lastPeriod) {
+      const total = components.reduce((sum, c) => sum + shares[c.ticker] * priceOn(c.ticker, date), 0);
+      if (total > 0) {
+        for (const { ticker, weight } of components) {
+          const price = priceOn(ticker, date);
+          if (price > 0) {
+            shares[ticker] = (total * weight) / price;
+          }
+        }
+      }
+    }
+    lastPeriod = period;
+
+    // Invest (or withdraw) every contribution up to and including this date
+    while (contributionIndex < sortedContributions.length && sortedContributions[contributionIndex].date <= date) {
+      const contribution = sortedContributions[contributionIndex];
+      for (const { ticker, weight } of components) {
+        const priceAtContribution = getPriceOnOrBefore(prices[ticker] || [], contribution.date);
+        if (priceAtContribution) {
+          shares[ticker] += (contribution.amount * weight) / priceAtContribution / feeFactor(contribution.date);
+        }
+      }
+      contributionIndex++;
+    }
+
+    const value = components.reduce((sum, c) => sum + shares[c.ticker] * priceOn(c.ticker, date), 0) * feeFactor(date);
+    values.push(Math.max(0, value));
+  }
+
+  return values;
+}
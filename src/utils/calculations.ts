@@ -3,96 +3,38 @@ import type { CashFlow } from '../types/CashFlow';
 import type { StockPrice } from '../types/StockPrice';
 import type { StockSplit } from '../types/StockSplit';
 import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
-import type { StockBreakdownData } from '../types/StockBreakdownData';
+import type { LotBreakdown, SectorComparison, StockBreakdownData } from '../types/StockBreakdownData';
 import type { SummaryData } from '../types/SummaryData';
-import { getPriceOnDate, getLatestPrice } from './stockApi';
-
-// Get price on or before date using sorted array (binary search approach)
-function getPriceOnOrBefore(prices: StockPrice[], targetDate: string): number | null {
-  if (prices.length === 0) return null;
-
-  // Binary search for the largest date <= targetDate
-  let left = 0;
-  let right = prices.length - 1;
-  let result: number | null = null;
-
-  while (left <= right) {
-    const mid = Math.floor((left + right) / 2);
-    if (prices[mid].date <= targetDate) {
-      result = prices[mid].price;
-      left = mid + 1;
-    } else {
-      right = mid - 1;
-    }
-  }
-
-  return result ?? (prices.length > 0 ? prices[0].price : null);
-}
-
-// Calculate cumulative split factor for all splits AFTER a given date
-// This is used to un-adjust Yahoo's split-adjusted prices back to actual historical prices
-function getSplitAdjustmentFactor(splits: StockSplit[], priceDate: string): number {
-  let factor = 1;
-  for (const split of splits) {
-    // If the split happened AFTER the price date, we need to adjust
-    if (split.date > priceDate) {
-      factor *= split.splitFactor;
-    }
-  }
-  return factor;
-}
-
-// Build unadjusted price map - convert Yahoo's split-adjusted prices back to actual historical prices
-function buildUnadjustedPriceMap(prices: StockPrice[], splits: StockSplit[]): Map<string, number> {
-  const map = new Map<string, number>();
-  const sortedSplits = [...splits].sort((a, b) => a.date.localeCompare(b.date));
-
-  for (const p of prices) {
-    // Multiply by split factor to un-adjust the price
-    const factor = getSplitAdjustmentFactor(sortedSplits, p.date);
-    map.set(p.date, p.price * factor);
-  }
-  return map;
-}
-
-// Get unadjusted price on or before a date
-function getUnadjustedPriceOnOrBefore(prices: StockPrice[], splits: StockSplit[], targetDate: string): number | null {
-  if (prices.length === 0) return null;
-
-  const sortedSplits = [...splits].sort((a, b) => a.date.localeCompare(b.date));
-
-  // Binary search for the largest date <= targetDate
-  let left = 0;
-  let right = prices.length - 1;
-  let resultPrice: number | null = null;
-  let resultDate: string | null = null;
-
-  while (left <= right) {
-    const mid = Math.floor((left + right) / 2);
-    if (prices[mid].date <= targetDate) {
-      resultPrice = prices[mid].price;
-      resultDate = prices[mid].date;
-      left = mid + 1;
-    } else {
-      right = mid - 1;
-    }
-  }
-
-  if (resultPrice === null) {
-    resultPrice = prices.length > 0 ? prices[0].price : null;
-    resultDate = prices.length > 0 ? prices[0].date : null;
-  }
-
-  if (resultPrice === null || resultDate === null) return null;
-
-  // Apply split adjustment
-  const factor = getSplitAdjustmentFactor(sortedSplits, resultDate);
-  return resultPrice * factor;
-}
-
-const MAX_CHART_POINTS = 500;
-
-export function downsample(points: PortfolioDataPoint[], maxPoints: number): PortfolioDataPoint[] {
+import type { Benchmark } from '../types/Benchmark';
+import type { Contribution } from '../types/Contribution';
+import type { BenchmarkComparison } from '../types/BenchmarkComparison';
+import type { StockDividend } from '../types/StockDividend';
+import type { CalculationOptions } from '../types/CalculationOptions';
+import type { RealizedLot, TaxLot } from '../types/TaxLot';
+import type { SellRegret } from '../types/SellRegret';
+import { getLatestPrice } from './stockApi';
+import {
+  buildUnadjustedPriceMap,
+  getPricePointOnOrBefore,
+  getSplitAdjustmentFactor,
+  getUnadjustedPriceOnOrBefore,
+} from './priceLookup';
+import { createTickerBenchmark, simulateBenchmark } from './benchmarks';
+import { buildTaxLots, getUnrealizedGain } from './taxLots';
+import { buildLumpSumContribution, buildScheduledContributions } from './contributionTiming';
+import { DEFAULT_LOT_METHOD } from '../config/lotMethods';
+import { DEFAULT_CONTRIBUTION_SCHEDULE } from '../config/contributionSchedules';
+import { getSectorFund, type SectorFund } from '../config/sectors';
+import {
+  annualizeReturn,
+  bucketFlowsByDate,
+  calculateTimeWeightedReturns,
+  calculateXirr,
+} from './returns';
+
+export const MAX_CHART_POINTS = 500;
+
+export function downsample<T extends { date: string }>(points: T[], maxPoints: number): T[] {
   if (points.length <= maxPoints) return points;
 
   // Try weekly (7 days), then keep doubling: 14, 28, 56, ...
@@ -106,10 +48,10 @@ export function downsample(points: PortfolioDataPoint[], maxPoints: number): Por
   return points; // fallback (shouldn't happen)
 }
 
-function sampleAtInterval(points: PortfolioDataPoint[], intervalDays: number): PortfolioDataPoint[] {
+function sampleAtInterval<T extends { date: string }>(points: T[], intervalDays: number): T[] {
   if (points.length === 0) return [];
 
-  const result: PortfolioDataPoint[] = [points[0]];
+  const result: T[] = [points[0]];
   const intervalMs = intervalDays * 86400000;
   let nextSampleAfter = new Date(points[0].date + 'T00:00:00').getTime() + intervalMs;
 
@@ -132,11 +74,30 @@ function sampleAtInterval(points: PortfolioDataPoint[], intervalDays: number): P
 export function calculatePortfolioTimeSeries(
   trades: Trade[],
   stockPrices: Record<string, StockPrice[]>,
-  spyPrices: StockPrice[],
+  benchmarkPrices: Record<string, StockPrice[]>,
+  cashFlows: CashFlow[] = [],
+  splits: Record<string, StockSplit[]> = {},
+  benchmarks: Benchmark[] = defaultBenchmarks(benchmarkPrices),
+  options: CalculationOptions = {}
+): PortfolioDataPoint[] {
+  const dailySeries = calculateDailyTimeSeries(
+    trades, stockPrices, benchmarkPrices, cashFlows, splits, benchmarks, options
+  );
+  return downsample(dailySeries, MAX_CHART_POINTS);
+}
+
+// One point per benchmark trading day, before downsampling for the charts
+export function calculateDailyTimeSeries(
+  trades: Trade[],
+  stockPrices: Record<string, StockPrice[]>,
+  benchmarkPrices: Record<string, StockPrice[]>,
   cashFlows: CashFlow[] = [],
-  splits: Record<string, StockSplit[]> = {}
+  splits: Record<string, StockSplit[]> = {},
+  benchmarks: Benchmark[] = defaultBenchmarks(benchmarkPrices),
+  options: CalculationOptions = {}
 ): PortfolioDataPoint[] {
-  if (trades.length === 0 || spyPrices.length === 0) {
+  const calendar = getBenchmarkCalendar(benchmarks, benchmarkPrices);
+  if (trades.length === 0 || calendar.length === 0) {
     return [];
   }
 
@@ -159,66 +120,97 @@ export function calculatePortfolioTimeSeries(
   }
 
   // Calculate cost basis from cash flows if available, otherwise from trades
-  const totalCashInflows = cashFlows.reduce((sum, cf) => sum + cf.amount, 0);
+  const totalCashInflows = cashFlows.reduce((sum, cf) => sum + getCashFlowBasisAmount(cf), 0);
   const useCashFlowBasis = totalCashInflows > 0;
 
   // Pre-calculate cumulative cash inflows by date for time series
   const sortedCashFlows = [...cashFlows].sort((a, b) => a.date.localeCompare(b.date));
 
-  // Build deposit-based SPY shares (what if each deposit was invested in SPY?)
-  // Filter to deposits and vests (not dividends, cap gains, etc.)
-  const deposits = cashFlows.filter(cf => cf.type === 'deposit' || cf.type === 'vest');
-  const sortedDeposits = [...deposits].sort((a, b) => a.date.localeCompare(b.date));
-
-  // Pre-calculate cumulative SPY shares from deposits by date
-  const depositSpySharesByDate = new Map<string, number>();
-  let cumulativeDepositSpyShares = 0;
-
-  for (const deposit of sortedDeposits) {
-    const spyPriceAtDeposit = getPriceOnOrBefore(spyPrices, deposit.date);
-    if (spyPriceAtDeposit) {
-      cumulativeDepositSpyShares += deposit.amount / spyPriceAtDeposit;
-      depositSpySharesByDate.set(deposit.date, cumulativeDepositSpyShares);
-    }
+  // Build deposit-based counterfactuals (what if each deposit was invested in the benchmark?)
+  const contributions = getContributions(cashFlows, sortedTrades);
+
+  // Uninvested cash is only known when the export records deposits;
+  // otherwise every trade is assumed to be funded from outside the account
+  const trackCash = cashFlows.some(isDeposit);
+
+  // Simulate every benchmark over the whole calendar up front
+  const calendarDates = calendar.map(p => p.date);
+  const reinvestedDividends = getReinvestedDividends(options);
+  const expenseRatio = options.expenseRatio ?? 0;
+  const counterfactualSeries: Record<string, number[]> = {};
+  for (const benchmark of benchmarks) {
+    counterfactualSeries[benchmark.id] = simulateBenchmark(
+      benchmark, benchmarkPrices, contributions, calendarDates, reinvestedDividends, expenseRatio
+    );
   }
 
-  // If no deposits available, fall back to trade-based calculation
-  const useDepositBasis = deposits.length > 0;
-
-  // Pre-calculate SPY shares change for each trade (fallback for when no deposits)
-  const tradeSpySharesChange: number[] = sortedTrades.map(trade => {
-    const tradeAmount = trade.shares * (trade.price ?? 0);
-    const spyPriceAtTrade = getPriceOnOrBefore(spyPrices, trade.date);
-    if (!spyPriceAtTrade) return 0;
-    const spyShares = tradeAmount / spyPriceAtTrade;
-    return trade.type === 'sell' ? -spyShares : spyShares;
-  });
-
-  const dataPoints: PortfolioDataPoint[] = [];
+  // The same money in the primary benchmark on a fixed schedule and all at once up front,
+  // which bracket the effect of deposit timing. Left out when no money went in on balance,
+  // rather than drawn as a flat line at zero
+  const scheduledContributions = buildScheduledContributions(
+    contributions, options.dcaSchedule ?? DEFAULT_CONTRIBUTION_SCHEDULE
+  );
+  const lumpSumContributions = buildLumpSumContribution(contributions, sortedTrades[0].date);
+  const dcaSeries = scheduledContributions.length > 0
+    ? simulateBenchmark(
+      benchmarks[0], benchmarkPrices, scheduledContributions, calendarDates, reinvestedDividends, expenseRatio
+    )
+    : null;
+  const lumpSumSeries = lumpSumContributions.length > 0
+    ? simulateBenchmark(
+      benchmarks[0], benchmarkPrices, lumpSumContributions, calendarDates, reinvestedDividends, expenseRatio
+    )
+    : null;
+
+  // Portfolio value (holdings + cash), cash balance and cost basis on every calendar day
+  const portfolioValues: number[] = [];
+  const cashBalances: number[] = [];
+  const costBases: number[] = [];
+  const buyAndHoldValues: number[] = [];
+
+  // Buy and hold: the holdings and cash as of the freeze date, never traded again.
+  // Later money in (or out) is spread over those holdings by value
+  const freezeDate = options.freezeDate ?? getDefaultFreezeDate(sortedTrades);
+  const sortedContributions = [...contributions].sort((a, b) => a.date.localeCompare(b.date));
+  let frozenShares: Record<string, number> | null = null;
+  let frozenCash = 0;
+  let frozenContributionIndex = 0;
+
+  const getStockPrice = (ticker: string, date: string): number =>
+    priceMaps[ticker]?.get(date)
+    // Fallback: get unadjusted price on or before current date
+    ?? getUnadjustedPriceOnOrBefore(stockPrices[ticker] || [], splits[ticker] || [], date)
+    ?? 0;
 
   // Track raw shares per ticker - no split adjustment needed since we use unadjusted prices
   const sharesPerTicker: Record<string, number> = {};
   let tradeIndex = 0;
-  let tradeBasedSpyShares = 0;
   let tradeCostBasis = 0;
+  let cashFlowIndex = 0;
+  let cashFlowTotal = 0;
+  let cashFlowBasis = 0;
 
-  for (const spyPrice of spyPrices) {
-    const currentDate = spyPrice.date;
+  for (let dayIndex = 0; dayIndex < calendarDates.length; dayIndex++) {
+    const currentDate = calendarDates[dayIndex];
 
     // Process all trades up to and including current date
     while (tradeIndex < sortedTrades.length && sortedTrades[tradeIndex].date <= currentDate) {
       const trade = sortedTrades[tradeIndex];
-      const tradeAmount = trade.shares * (trade.price ?? 0);
+
+      // Splits (zero-price buys) still reach the frozen holdings, in proportion
+      const heldBefore = sharesPerTicker[trade.ticker] || 0;
+      if (frozenShares && trade.type === 'buy' && !trade.price && frozenShares[trade.ticker] && heldBefore > 0) {
+        frozenShares[trade.ticker] *= (heldBefore + trade.shares) / heldBefore;
+      }
 
       if (trade.type === 'sell') {
         sharesPerTicker[trade.ticker] = (sharesPerTicker[trade.ticker] || 0) - trade.shares;
-        tradeCostBasis -= tradeAmount;
       } else {
         sharesPerTicker[trade.ticker] = (sharesPerTicker[trade.ticker] || 0) + trade.shares;
-        tradeCostBasis += tradeAmount;
       }
+      // Fees come out of the cash, or are paid in from outside along with the trade
+      tradeCostBasis += getTradeCashAmount(trade);
 
-      tradeBasedSpyShares += tradeSpySharesChange[tradeIndex];
       tradeIndex++;
     }
 
@@ -233,16 +225,7 @@ export function calculatePortfolioTimeSeries(
         console.log(`[${debugDate}] ${ticker}: ${shares} shares (skipping: ${shares <= 0})`);
       }
       if (shares <= 0) continue;
-      const priceMap = priceMaps[ticker];
-      let currentStockPrice = priceMap?.get(currentDate);
-      if (currentStockPrice === undefined) {
-        // Fallback: get unadjusted price on or before current date
-        currentStockPrice = getUnadjustedPriceOnOrBefore(
-          stockPrices[ticker] || [],
-          splits[ticker] || [],
-          currentDate
-        ) ?? 0;
-      }
+      const currentStockPrice = getStockPrice(ticker, currentDate);
       const tickerValue = shares * currentStockPrice;
       if (currentDate === debugDate) {
         console.log(`[${debugDate}] ${ticker}: ${shares} shares @ $${currentStockPrice.toFixed(2)} = $${tickerValue.toFixed(2)}`);
@@ -253,134 +236,313 @@ export function calculatePortfolioTimeSeries(
       console.log(`[${debugDate}] TOTAL PORTFOLIO VALUE: $${portfolioValue.toFixed(2)}`);
     }
 
-    // Calculate counterfactual value using deposit-based SPY shares if available
-    let counterfactualSpyShares: number;
-    if (useDepositBasis) {
-      // Find the cumulative SPY shares from deposits as of current date
-      counterfactualSpyShares = 0;
-      for (const deposit of sortedDeposits) {
-        if (deposit.date > currentDate) break;
-        const spySharesAtDate = depositSpySharesByDate.get(deposit.date);
-        if (spySharesAtDate !== undefined) {
-          counterfactualSpyShares = spySharesAtDate;
-        }
-      }
-    } else {
-      // Fall back to trade-based calculation
-      counterfactualSpyShares = tradeBasedSpyShares;
+    // Deposits, dividends and interest received so far, less fees charged to the account
+    while (cashFlowIndex < sortedCashFlows.length && sortedCashFlows[cashFlowIndex].date <= currentDate) {
+      cashFlowTotal += getCashFlowAmount(sortedCashFlows[cashFlowIndex]);
+      cashFlowBasis += getCashFlowBasisAmount(sortedCashFlows[cashFlowIndex]);
+      cashFlowIndex++;
     }
 
-    const counterfactualValue = Math.max(0, counterfactualSpyShares) * spyPrice.price;
+    // Cash left after buys and sells. A negative balance means the export is missing
+    // deposits (or the account used margin), which isn't modelled, so floor it at zero
+    const cashBalance = trackCash ? Math.max(0, cashFlowTotal - tradeCostBasis) : 0;
 
     // Use cash flow basis if available, otherwise trade basis
-    let costBasis: number;
-    if (useCashFlowBasis) {
-      costBasis = sortedCashFlows
-        .filter(cf => cf.date <= currentDate)
-        .reduce((sum, cf) => sum + cf.amount, 0);
-    } else {
-      costBasis = Math.max(0, tradeCostBasis);
+    const costBasis = useCashFlowBasis ? cashFlowBasis : Math.max(0, tradeCostBasis);
+
+    if (!frozenShares && currentDate >= freezeDate) {
+      frozenShares = Object.fromEntries(Object.entries(sharesPerTicker).filter(([, shares]) => shares > 0));
+      frozenCash = cashBalance;
+      // Money up to and including the freeze date is already in the snapshot
+      while (
+        frozenContributionIndex < sortedContributions.length &&
+        sortedContributions[frozenContributionIndex].date <= currentDate
+      ) {
+        frozenContributionIndex++;
+      }
+    }
+
+    let buyAndHoldValue = portfolioValue + cashBalance;
+    if (frozenShares) {
+      const frozen = frozenShares;
+      const holdingsValue = () => Object.entries(frozen)
+        .reduce((sum, [ticker, shares]) => sum + shares * getStockPrice(ticker, currentDate), 0);
+
+      while (
+        frozenContributionIndex < sortedContributions.length &&
+        sortedContributions[frozenContributionIndex].date <= currentDate
+      ) {
+        const { amount } = sortedContributions[frozenContributionIndex];
+        const total = holdingsValue();
+        if (total > 0) {
+          // Scale every holding by the same factor, which keeps the weights
+          const scale = Math.max(0, (total + amount) / total);
+          for (const ticker of Object.keys(frozen)) {
+            frozen[ticker] *= scale;
+          }
+        } else {
+          frozenCash = Math.max(0, frozenCash + amount);
+        }
+        frozenContributionIndex++;
+      }
+
+      buyAndHoldValue = holdingsValue() + frozenCash;
     }
 
-    if (costBasis > 0) {
-      const portfolioReturn = ((portfolioValue - costBasis) / costBasis) * 100;
-      const counterfactualReturn = ((counterfactualValue - costBasis) / costBasis) * 100;
-
-      dataPoints.push({
-        date: currentDate,
-        portfolioValue: Math.round(portfolioValue * 100) / 100,
-        counterfactualValue: Math.round(counterfactualValue * 100) / 100,
-        totalDeposits: Math.round(costBasis * 100) / 100,
-        portfolioReturn: Math.round(portfolioReturn * 100) / 100,
-        counterfactualReturn: Math.round(counterfactualReturn * 100) / 100,
-      });
+    portfolioValues.push(portfolioValue + cashBalance);
+    cashBalances.push(cashBalance);
+    costBases.push(costBasis);
+    buyAndHoldValues.push(buyAndHoldValue);
+  }
+
+  // Time-weighted returns chain-link each day's growth so deposit timing drops out.
+  // The portfolio and every benchmark share the same external flows: deposits when the
+  // cash ledger is tracked (dividends and interest are then returns), trades otherwise.
+  const contributionFlows = bucketFlowsByDate(contributions, calendarDates);
+  const portfolioTimeWeightedReturns = calculateTimeWeightedReturns(portfolioValues, contributionFlows);
+  const counterfactualTimeWeightedSeries: Record<string, number[]> = {};
+  for (const benchmark of benchmarks) {
+    counterfactualTimeWeightedSeries[benchmark.id] = calculateTimeWeightedReturns(
+      counterfactualSeries[benchmark.id],
+      contributionFlows
+    );
+  }
+
+  const dataPoints: PortfolioDataPoint[] = [];
+
+  for (let dayIndex = 0; dayIndex < calendarDates.length; dayIndex++) {
+    const portfolioValue = portfolioValues[dayIndex];
+    const costBasis = costBases[dayIndex];
+    // Skip days with nothing in or held yet. Once sells have returned more than
+    // was put in there is no basis left, but the holdings still need valuing
+    if (costBasis <= 0 && portfolioValue <= 0) continue;
+
+    // Simple returns need a positive basis; without one they are unknown
+    const simpleReturn = (value: number): number | null =>
+      costBasis > 0 ? Math.round(((value - costBasis) / costBasis) * 100 * 100) / 100 : null;
+
+    const roundedCounterfactualValues: Record<string, number> = {};
+    const counterfactualReturns: Record<string, number | null> = {};
+    const counterfactualTimeWeightedReturns: Record<string, number> = {};
+    for (const benchmark of benchmarks) {
+      const value = counterfactualSeries[benchmark.id][dayIndex];
+      roundedCounterfactualValues[benchmark.id] = Math.round(value * 100) / 100;
+      counterfactualReturns[benchmark.id] = simpleReturn(value);
+      counterfactualTimeWeightedReturns[benchmark.id] =
+        Math.round(counterfactualTimeWeightedSeries[benchmark.id][dayIndex] * 100) / 100;
     }
+
+    dataPoints.push({
+      date: calendarDates[dayIndex],
+      portfolioValue: Math.round(portfolioValue * 100) / 100,
+      cashBalance: Math.round(cashBalances[dayIndex] * 100) / 100,
+      buyAndHoldValue: Math.round(buyAndHoldValues[dayIndex] * 100) / 100,
+      counterfactualValues: roundedCounterfactualValues,
+      dcaValue: dcaSeries ? Math.round(dcaSeries[dayIndex] * 100) / 100 : null,
+      lumpSumValue: lumpSumSeries ? Math.round(lumpSumSeries[dayIndex] * 100) / 100 : null,
+      totalDeposits: Math.round(costBasis * 100) / 100,
+      portfolioReturn: simpleReturn(portfolioValue),
+      counterfactualReturns,
+      portfolioTimeWeightedReturn: Math.round(portfolioTimeWeightedReturns[dayIndex] * 100) / 100,
+      counterfactualTimeWeightedReturns,
+    });
   }
 
-  return downsample(dataPoints, 500);
+  return dataPoints;
+}
+
+/**
+ * Default date to freeze the buy-and-hold counterfactual: the end of the
+ * month of the first trade, so the opening purchases are in place
+ */
+export function getDefaultFreezeDate(trades: Trade[]): string {
+  if (trades.length === 0) return '';
+  const firstDate = trades.reduce((earliest, t) => (t.date < earliest ? t.date : earliest), trades[0].date);
+  const [year, month] = firstDate.split('-').map(Number);
+  // Day 0 of the next month is the last day of this one
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+}
+
+// One single-ticker benchmark per priced ticker, used when no explicit benchmarks are given
+function defaultBenchmarks(benchmarkPrices: Record<string, StockPrice[]>): Benchmark[] {
+  return Object.keys(benchmarkPrices).map(createTickerBenchmark);
+}
+
+// The primary benchmark's trading days drive the time series
+function getBenchmarkCalendar(benchmarks: Benchmark[], benchmarkPrices: Record<string, StockPrice[]>): StockPrice[] {
+  if (benchmarks.length === 0) return [];
+  return benchmarkPrices[benchmarks[0].components[0].ticker] || [];
+}
+
+// Money put into the portfolio: deposits and vests (not dividends, cap gains, etc.).
+// If no deposits are available, fall back to trades: buy (or sell) the same
+// dollar amount of the benchmark on each trade date, fees included
+export function getContributions(cashFlows: CashFlow[], trades: Trade[]): Contribution[] {
+  const deposits = cashFlows.filter(isDeposit);
+  if (deposits.length > 0) {
+    return deposits.map(d => ({ date: d.date, amount: d.amount }));
+  }
+  return trades.map(tradeToContribution);
+}
+
+function isDeposit(cashFlow: CashFlow): boolean {
+  return cashFlow.type === 'deposit' || cashFlow.type === 'vest';
+}
+
+// Benchmark dividends to reinvest, or none when DRIP is off
+export function getReinvestedDividends(options: CalculationOptions): Record<string, StockDividend[]> {
+  return options.reinvestDividends ? options.benchmarkDividends ?? {} : {};
+}
+
+// Fees charged to the account (e.g. ADR fees) take money out; everything else puts it in
+function getCashFlowAmount(cashFlow: CashFlow): number {
+  return cashFlow.type === 'fee' ? -cashFlow.amount : cashFlow.amount;
+}
+
+// Money counted in the cost basis. Fees aren't: they come out of the cash,
+// so they lower the value and the return rather than the basis
+function getCashFlowBasisAmount(cashFlow: CashFlow): number {
+  return cashFlow.type === 'fee' ? 0 : cashFlow.amount;
+}
+
+// Money a trade needs, with its fees: buys cost the price plus fees,
+// sells return the proceeds less fees (negative)
+export function getTradeCashAmount(trade: Trade): number {
+  const amount = trade.shares * (trade.price ?? 0);
+  const fees = trade.fees ?? 0;
+  return trade.type === 'sell' ? -(amount - fees) : amount + fees;
+}
+
+// Signed dollar amount of a trade: buys add money, sells take it out
+function tradeToContribution(trade: Trade): Contribution {
+  return { date: trade.date, amount: getTradeCashAmount(trade) };
 }
 
 export function calculateStockBreakdown(
   trades: Trade[],
   stockPrices: Record<string, StockPrice[]>,
-  spyPrices: StockPrice[]
+  benchmarkPrices: Record<string, StockPrice[]>,
+  benchmarks: Benchmark[] = defaultBenchmarks(benchmarkPrices),
+  options: CalculationOptions = {}
 ): StockBreakdownData[] {
-  // Aggregate trades by ticker, handling buys and sells
+  // The first benchmark is the primary one shown on each card
+  const primaryBenchmark = benchmarks[0];
+  const calendarDates = getBenchmarkCalendar(benchmarks, benchmarkPrices).map(p => p.date);
+  const reinvestedDividends = getReinvestedDividends(options);
+  const expenseRatio = options.expenseRatio ?? 0;
+  const sectorPrices = options.sectorPrices ?? {};
+
+  // Match sells to buy lots so cost basis and gains follow the chosen lot method
+  const { openLots, realizedLots } = buildTaxLots(trades, options.lotMethod ?? DEFAULT_LOT_METHOD);
+
+  // Aggregate trades by ticker for the benchmark comparison
   const aggregated: Record<string, {
-    totalShares: number;
-    totalCost: number;  // Net cost (buys - sells)
-    totalSpyShares: number;
+    netInvestment: number;  // Buys - sells, fees included
+    contributions: Contribution[];
     firstBuyDate: string;
   }> = {};
 
-  const currentSpyPrice = getLatestPrice(spyPrices);
-
   for (const trade of trades) {
-    const tradePrice = trade.price ?? 0;
-    const tradeAmount = trade.shares * tradePrice;
-    const spyPriceAtTrade = getPriceOnDate(spyPrices, trade.date);
-    const spySharesChange = spyPriceAtTrade ? tradeAmount / spyPriceAtTrade : 0;
-
-    // Use raw shares directly - SPL entries in the CSV already account for splits
-    // No split adjustment needed here
-    const shares = trade.shares;
-
     if (!aggregated[trade.ticker]) {
       aggregated[trade.ticker] = {
-        totalShares: 0,
-        totalCost: 0,
-        totalSpyShares: 0,
+        netInvestment: 0,
+        contributions: [],
         firstBuyDate: trade.date,
       };
     }
 
-    if (trade.type === 'sell') {
-      aggregated[trade.ticker].totalShares -= shares;
-      aggregated[trade.ticker].totalCost -= tradeAmount;
-      aggregated[trade.ticker].totalSpyShares -= spySharesChange;
-    } else {
-      aggregated[trade.ticker].totalShares += shares;
-      aggregated[trade.ticker].totalCost += tradeAmount;
-      aggregated[trade.ticker].totalSpyShares += spySharesChange;
-
+    aggregated[trade.ticker].netInvestment += getTradeCashAmount(trade);
+    if (trade.type === 'buy') {
       // Track earliest buy date
       if (trade.date < aggregated[trade.ticker].firstBuyDate) {
         aggregated[trade.ticker].firstBuyDate = trade.date;
       }
     }
+
+    // Buy (or sell) the same dollar amount of each benchmark on the trade date
+    aggregated[trade.ticker].contributions.push(tradeToContribution(trade));
   }
 
   const breakdown: StockBreakdownData[] = [];
 
   for (const [ticker, data] of Object.entries(aggregated)) {
-    // Skip if no shares remaining
-    if (data.totalShares <= 0) continue;
+    // Use raw shares directly - SPL entries in the CSV already account for splits
+    const lots = openLots.filter(lot => lot.ticker === ticker);
+    const totalShares = lots.reduce((sum, lot) => sum + lot.shares, 0);
+    const soldLots = realizedLots.filter(lot => lot.ticker === ticker);
+    const realizedGain = soldLots.reduce((sum, lot) => sum + lot.gain, 0);
+
+    if (totalShares <= 0) {
+      if (soldLots.length > 0) {
+        breakdown.push(buildClosedPosition(
+          ticker, data.firstBuyDate, soldLots, stockPrices[ticker] || [], benchmarkPrices, benchmarks,
+          calendarDates, reinvestedDividends, expenseRatio, sectorPrices,
+        ));
+      }
+      continue;
+    }
 
     const tickerPrices = stockPrices[ticker];
     if (!tickerPrices || tickerPrices.length === 0) continue;
 
     const currentPrice = getLatestPrice(tickerPrices);
-    const currentValue = data.totalShares * currentPrice;
-    const spyCurrentValue = Math.max(0, data.totalSpyShares) * currentSpyPrice;
-    const avgBuyPrice = data.totalShares > 0 ? Math.max(0, data.totalCost) / data.totalShares : 0;
-
-    const netInvestment = Math.max(0, data.totalCost);
-    const gain = currentValue - netInvestment;
-    const spyGain = spyCurrentValue - netInvestment;
-    const difference = gain - spyGain;
+    const currentValue = totalShares * currentPrice;
+    const benchmarkValues: Record<string, number> = {};
+    for (const benchmark of benchmarks) {
+      const series = simulateBenchmark(
+        benchmark, benchmarkPrices, data.contributions, calendarDates, reinvestedDividends, expenseRatio
+      );
+      benchmarkValues[benchmark.id] = series.length > 0 ? series[series.length - 1] : 0;
+    }
+    const benchmarkCurrentValue = benchmarkValues[primaryBenchmark.id];
+    const benchmarkShares = getBenchmarkShares(primaryBenchmark, benchmarkPrices, benchmarkCurrentValue);
+
+    // Average cost of the shares still held, not of every share ever bought
+    const costBasis = lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0);
+    const avgBuyPrice = costBasis / totalShares;
+    const unrealizedGain = lots.reduce((sum, lot) => sum + getUnrealizedGain(lot, currentPrice), 0);
+    const lotBreakdown = [...lots]
+      .sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate))
+      .map(lot => buildLotBreakdown(
+        lot, currentPrice, primaryBenchmark, benchmarkPrices, calendarDates, reinvestedDividends, expenseRatio
+      ));
+
+    const gain = unrealizedGain + realizedGain;
+    const benchmarkGain = benchmarkCurrentValue - data.netInvestment;
+    const difference = gain - benchmarkGain;
+
+    let sector: SectorComparison | null = null;
+    const sectorFund = getSectorFundWithPrices(ticker, sectorPrices, data.firstBuyDate);
+    if (sectorFund) {
+      const series = simulateBenchmark(
+        createTickerBenchmark(sectorFund.etf), sectorPrices, data.contributions, calendarDates, reinvestedDividends
+      );
+      const sectorValue = series.length > 0 ? series[series.length - 1] : 0;
+      sector = buildSectorComparison(sectorFund, sectorValue, data.netInvestment, gain);
+    }
 
     breakdown.push({
       ticker,
-      shares: Math.round(data.totalShares * 1000000) / 1000000,
+      status: 'open',
+      shares: Math.round(totalShares * 1000000) / 1000000,
       buyDate: data.firstBuyDate,
       buyPrice: Math.round(avgBuyPrice * 100) / 100,
       currentPrice,
+      currentPriceDate: tickerPrices[tickerPrices.length - 1].date,
       currentValue: Math.round(currentValue * 100) / 100,
-      spyShares: Math.round(Math.max(0, data.totalSpyShares) * 100) / 100,
-      spyCurrentValue: Math.round(spyCurrentValue * 100) / 100,
+      benchmarkShares: Math.round(benchmarkShares * 100) / 100,
+      benchmarkCurrentValue: Math.round(benchmarkCurrentValue * 100) / 100,
+      benchmarkValueAtClose: null,
+      closedDate: null,
+      benchmarkValues: roundValues(benchmarkValues),
+      costBasis: Math.round(costBasis * 100) / 100,
+      unrealizedGain: Math.round(unrealizedGain * 100) / 100,
+      realizedGain: Math.round(realizedGain * 100) / 100,
       gain: Math.round(gain * 100) / 100,
-      spyGain: Math.round(spyGain * 100) / 100,
+      benchmarkGain: Math.round(benchmarkGain * 100) / 100,
       difference: Math.round(difference * 100) / 100,
+      lots: lotBreakdown,
+      sector,
     });
   }
 
@@ -390,55 +552,340 @@ export function calculateStockBreakdown(
   return breakdown;
 }
 
+// Share count only makes sense for a single-ticker benchmark
+function getBenchmarkShares(
+  benchmark: Benchmark,
+  benchmarkPrices: Record<string, StockPrice[]>,
+  value: number
+): number {
+  const prices = benchmarkPrices[benchmark.components[0].ticker] || [];
+  return benchmark.components.length === 1 && prices.length > 0 ? value / getLatestPrice(prices) : 0;
+}
+
+function roundValues(values: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([id, value]) => [id, Math.round(value * 100) / 100]));
+}
+
+// A ticker's sector fund, as long as it has prices back to the first buy
+// (XLC and XLRE are younger than many positions)
+function getSectorFundWithPrices(
+  ticker: string,
+  sectorPrices: Record<string, StockPrice[]>,
+  firstBuyDate: string
+): SectorFund | null {
+  const fund = getSectorFund(ticker);
+  const prices = fund ? sectorPrices[fund.etf] || [] : [];
+  return fund && prices.length > 0 && prices[0].date <= firstBuyDate ? fund : null;
+}
+
+function buildSectorComparison(fund: SectorFund, value: number, cost: number, positionGain: number): SectorComparison {
+  const gain = value - cost;
+  return {
+    name: fund.name,
+    etf: fund.etf,
+    value: Math.round(value * 100) / 100,
+    gain: Math.round(gain * 100) / 100,
+    difference: Math.round((positionGain - gain) * 100) / 100,
+  };
+}
+
+// Each sold lot's cost put into the benchmark on its buy date, valued on its sell date and today
+function valueSoldLotsInBenchmark(
+  benchmark: Benchmark,
+  benchmarkPrices: Record<string, StockPrice[]>,
+  soldLots: RealizedLot[],
+  calendarDates: string[],
+  reinvestedDividends: Record<string, StockDividend[]>,
+  expenseRatio: number
+): { valueAtSale: number; valueToday: number } {
+  let valueToday = 0;
+  let valueAtSale = 0;
+  for (const lot of soldLots) {
+    const series = simulateBenchmark(
+      benchmark, benchmarkPrices, [{ date: lot.acquiredDate, amount: lot.costBasis }], calendarDates,
+      reinvestedDividends, expenseRatio
+    );
+    if (series.length === 0) continue;
+    valueToday += series[series.length - 1];
+    // Last trading day on or before the sale
+    const afterSale = calendarDates.findIndex(date => date > lot.soldDate);
+    valueAtSale += series[afterSale === -1 ? series.length - 1 : Math.max(0, afterSale - 1)];
+  }
+  return { valueAtSale, valueToday };
+}
+
+/**
+ * A position that was sold off entirely. Each sold lot is matched with a
+ * benchmark purchase of the same cost on the lot's buy date, valued on the day
+ * the lot was sold (what the sale is compared against) and held until today.
+ */
+function buildClosedPosition(
+  ticker: string,
+  firstBuyDate: string,
+  soldLots: RealizedLot[],
+  tickerPrices: StockPrice[],
+  benchmarkPrices: Record<string, StockPrice[]>,
+  benchmarks: Benchmark[],
+  calendarDates: string[],
+  reinvestedDividends: Record<string, StockDividend[]>,
+  expenseRatio: number,
+  sectorPrices: Record<string, StockPrice[]>
+): StockBreakdownData {
+  const primaryBenchmark = benchmarks[0];
+  const costBasis = soldLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+  const soldShares = soldLots.reduce((sum, lot) => sum + lot.shares, 0);
+  const realizedGain = soldLots.reduce((sum, lot) => sum + lot.gain, 0);
+  const closedDate = soldLots.reduce((latest, lot) => lot.soldDate > latest ? lot.soldDate : latest, '');
+
+  const benchmarkValues: Record<string, number> = {};
+  let benchmarkValueAtClose = 0;
+  for (const benchmark of benchmarks) {
+    const { valueAtSale, valueToday } = valueSoldLotsInBenchmark(
+      benchmark, benchmarkPrices, soldLots, calendarDates, reinvestedDividends, expenseRatio
+    );
+    benchmarkValues[benchmark.id] = valueToday;
+    if (benchmark.id === primaryBenchmark.id) {
+      benchmarkValueAtClose = valueAtSale;
+    }
+  }
+
+  const benchmarkCurrentValue = benchmarkValues[primaryBenchmark.id];
+  const benchmarkShares = getBenchmarkShares(primaryBenchmark, benchmarkPrices, benchmarkCurrentValue);
+  const benchmarkGain = benchmarkValueAtClose - costBasis;
+
+  // Compared as of the sales, like the primary benchmark
+  let sector: SectorComparison | null = null;
+  const sectorFund = getSectorFundWithPrices(ticker, sectorPrices, firstBuyDate);
+  if (sectorFund) {
+    // The expense ratio setting covers the benchmarks only
+    const { valueAtSale } = valueSoldLotsInBenchmark(
+      createTickerBenchmark(sectorFund.etf), sectorPrices, soldLots, calendarDates, reinvestedDividends, 0
+    );
+    sector = buildSectorComparison(sectorFund, valueAtSale, costBasis, realizedGain);
+  }
+
+  return {
+    ticker,
+    status: 'closed',
+    shares: 0,
+    buyDate: firstBuyDate,
+    buyPrice: soldShares > 0 ? Math.round((costBasis / soldShares) * 100) / 100 : 0,
+    currentPrice: getLatestPrice(tickerPrices),
+    currentPriceDate: tickerPrices.length > 0 ? tickerPrices[tickerPrices.length - 1].date : '',
+    currentValue: 0,
+    benchmarkShares: Math.round(benchmarkShares * 100) / 100,
+    benchmarkCurrentValue: Math.round(benchmarkCurrentValue * 100) / 100,
+    benchmarkValueAtClose: Math.round(benchmarkValueAtClose * 100) / 100,
+    closedDate,
+    benchmarkValues: roundValues(benchmarkValues),
+    costBasis: Math.round(costBasis * 100) / 100,
+    unrealizedGain: 0,
+    realizedGain: Math.round(realizedGain * 100) / 100,
+    gain: Math.round(realizedGain * 100) / 100,
+    benchmarkGain: Math.round(benchmarkGain * 100) / 100,
+    difference: Math.round((realizedGain - benchmarkGain) * 100) / 100,
+    lots: [],
+    sector,
+  };
+}
+
+// An open lot against the same cost invested in the benchmark on the lot's buy date
+function buildLotBreakdown(
+  lot: TaxLot,
+  currentPrice: number,
+  benchmark: Benchmark,
+  benchmarkPrices: Record<string, StockPrice[]>,
+  calendarDates: string[],
+  reinvestedDividends: Record<string, StockDividend[]>,
+  expenseRatio: number
+): LotBreakdown {
+  const costBasis = lot.shares * lot.costPerShare;
+  const currentValue = lot.shares * currentPrice;
+  const series = simulateBenchmark(
+    benchmark, benchmarkPrices, [{ date: lot.acquiredDate, amount: costBasis }], calendarDates, reinvestedDividends,
+    expenseRatio
+  );
+  const benchmarkValue = series.length > 0 ? series[series.length - 1] : 0;
+  const gain = currentValue - costBasis;
+  const benchmarkGain = benchmarkValue - costBasis;
+
+  return {
+    id: lot.id,
+    acquiredDate: lot.acquiredDate,
+    shares: Math.round(lot.shares * 1000000) / 1000000,
+    costPerShare: Math.round(lot.costPerShare * 100) / 100,
+    costBasis: Math.round(costBasis * 100) / 100,
+    currentValue: Math.round(currentValue * 100) / 100,
+    benchmarkValue: Math.round(benchmarkValue * 100) / 100,
+    gain: Math.round(gain * 100) / 100,
+    benchmarkGain: Math.round(benchmarkGain * 100) / 100,
+    difference: Math.round((gain - benchmarkGain) * 100) / 100,
+  };
+}
+
+/**
+ * "What if I had held": every sell trade, oldest first, with the sold shares
+ * valued today next to the proceeds put into the primary benchmark instead.
+ * Splits after the sale multiply the shares that would still be held, matching
+ * the raw share counts the time series works with.
+ */
+export function calculateSellRegret(
+  trades: Trade[],
+  stockPrices: Record<string, StockPrice[]>,
+  benchmarkPrices: Record<string, StockPrice[]>,
+  splits: Record<string, StockSplit[]> = {},
+  benchmarks: Benchmark[] = defaultBenchmarks(benchmarkPrices),
+  options: CalculationOptions = {}
+): SellRegret[] {
+  const primaryBenchmark = benchmarks[0];
+  const calendarDates = getBenchmarkCalendar(benchmarks, benchmarkPrices).map(p => p.date);
+  if (!primaryBenchmark || calendarDates.length === 0) return [];
+  const reinvestedDividends = getReinvestedDividends(options);
+  const expenseRatio = options.expenseRatio ?? 0;
+  // The benchmark earns dividends on total return or with DRIP on, so the
+  // sold shares have to as well: grow them by the dividend-adjusted close
+  const withDividends = options.returnBasis === 'total' || options.reinvestDividends === true;
+  const growth = (from: StockPrice, to: StockPrice): number => {
+    const start = withDividends ? from.adjClose ?? from.price : from.close ?? from.price;
+    const end = withDividends ? to.adjClose ?? to.price : to.close ?? to.price;
+    return start > 0 ? end / start : 0;
+  };
+
+  const sortedSells = trades
+    .filter(t => t.type === 'sell')
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return sortedSells.map(trade => {
+    const price = trade.price ?? 0;
+    // What actually reached the account, after the sell's fees
+    const proceeds = trade.shares * price - (trade.fees ?? 0);
+
+    const tickerPrices = stockPrices[trade.ticker] || [];
+    const sharesToday = trade.shares * getSplitAdjustmentFactor(splits[trade.ticker] || [], trade.date);
+    // The sold shares at the sale-day close, grown to the latest price
+    const atSale = getPricePointOnOrBefore(tickerPrices, trade.date);
+    const heldValue = atSale
+      ? sharesToday * (atSale.close ?? atSale.price) * growth(atSale, tickerPrices[tickerPrices.length - 1])
+      : null;
+
+    const series = simulateBenchmark(
+      primaryBenchmark, benchmarkPrices, [{ date: trade.date, amount: proceeds }], calendarDates, reinvestedDividends,
+      expenseRatio
+    );
+    const redeployedValue = series.length > 0 ? series[series.length - 1] : 0;
+
+    return {
+      tradeId: trade.id,
+      ticker: trade.ticker,
+      date: trade.date,
+      shares: trade.shares,
+      price,
+      proceeds: Math.round(proceeds * 100) / 100,
+      heldValue: heldValue === null ? null : Math.round(heldValue * 100) / 100,
+      redeployedValue: Math.round(redeployedValue * 100) / 100,
+      regret: heldValue === null ? null : Math.round((heldValue - redeployedValue) * 100) / 100,
+    };
+  });
+}
+
 export function calculateSummary(
   breakdown: StockBreakdownData[],
   cashFlows: CashFlow[] = [],
-  trades: Trade[] = []
+  trades: Trade[] = [],
+  timeSeries: PortfolioDataPoint[] = [],
+  options: CalculationOptions = {}
 ): SummaryData {
   if (breakdown.length === 0) {
     return {
       totalCostBasis: 0,
       totalPortfolioValue: 0,
+      cashBalance: 0,
+      realizedGain: 0,
+      unrealizedGain: 0,
       totalCounterfactualValue: 0,
-      portfolioReturn: 0,
-      counterfactualReturn: 0,
+      portfolioReturn: null,
+      counterfactualReturn: null,
       totalDifference: 0,
-      percentageDifference: 0,
+      percentageDifference: null,
+      benchmarkComparisons: [],
+      portfolioXirr: null,
+      counterfactualXirr: null,
+      portfolioCagr: null,
+      counterfactualCagr: null,
+      totalFees: 0,
+      expenseRatio: options.expenseRatio ?? 0,
       bestPerformer: null,
       worstPerformer: null,
     };
   }
 
   // Calculate total invested from cash flows if available, otherwise from trades
-  const totalCashInflows = cashFlows.reduce((sum, cf) => sum + cf.amount, 0);
+  const totalCashInflows = cashFlows.reduce((sum, cf) => sum + getCashFlowBasisAmount(cf), 0);
   let totalCostBasis: number;
 
   if (totalCashInflows > 0) {
     // Use cash inflows (deposits + dividends + cap gains) as cost basis
     totalCostBasis = totalCashInflows;
   } else {
-    // Fallback: calculate from trades (net of buys and sells)
-    totalCostBasis = trades.reduce((sum, t) => {
-      const amount = t.shares * (t.price ?? 0);
-      return sum + (t.type === 'sell' ? -amount : amount);
-    }, 0);
+    // Fallback: calculate from trades (net of buys and sells, fees included)
+    totalCostBasis = trades.reduce((sum, t) => sum + getTradeCashAmount(t), 0);
     totalCostBasis = Math.max(0, totalCostBasis);
   }
 
-  const totalPortfolioValue = breakdown.reduce((sum, b) => sum + b.currentValue, 0);
-  const totalCounterfactualValue = breakdown.reduce((sum, b) => sum + b.spyCurrentValue, 0);
-  const portfolioReturn = totalCostBasis > 0
-    ? ((totalPortfolioValue - totalCostBasis) / totalCostBasis) * 100
-    : 0;
-  const counterfactualReturn = totalCostBasis > 0
-    ? ((totalCounterfactualValue - totalCostBasis) / totalCostBasis) * 100
-    : 0;
+  // Compare against every benchmark, not just the primary one
+  const benchmarks = Object.keys(breakdown[0].benchmarkValues);
+
+  // Value everything as of the last day of the time series when there is one: that
+  // counts uninvested cash and uses the same deposit-based counterfactual as the charts
+  const openPositions = breakdown.filter(b => b.status === 'open');
+  const latestPriceDate = openPositions.reduce((latest, b) => (b.currentPriceDate > latest ? b.currentPriceDate : latest), '');
+  const seriesEnd = timeSeries.length > 0 ? timeSeries[timeSeries.length - 1] : null;
+  // Without one, or when it ends before the latest prices, add up the positions still held
+  const lastPoint = seriesEnd && seriesEnd.date >= latestPriceDate ? seriesEnd : null;
+  const getCounterfactualValue = (benchmark: string) => lastPoint
+    ? lastPoint.counterfactualValues[benchmark] ?? 0
+    : openPositions.reduce((sum, b) => sum + (b.benchmarkValues[benchmark] ?? 0), 0);
+
+  const totalPortfolioValue = lastPoint
+    ? lastPoint.portfolioValue
+    : openPositions.reduce((sum, b) => sum + b.currentValue, 0);
+  const cashBalance = lastPoint?.cashBalance ?? 0;
+  const totalCounterfactualValue = lastPoint
+    ? getCounterfactualValue(benchmarks[0])
+    : openPositions.reduce((sum, b) => sum + b.benchmarkCurrentValue, 0);
+  // Percentages of the cost basis, unknown once sells have returned more than was put in
+  const percentOfBasis = (value: number): number | null =>
+    totalCostBasis > 0 ? Math.round((value / totalCostBasis) * 100 * 100) / 100 : null;
   const totalDifference = totalPortfolioValue - totalCounterfactualValue;
-  const percentageDifference = totalCostBasis > 0
-    ? ((totalDifference / totalCostBasis) * 100)
-    : 0;
 
-  // Find best and worst performers (by difference vs SPY)
+  const benchmarkComparisons: BenchmarkComparison[] = benchmarks.map(benchmark => {
+    const counterfactualValue = getCounterfactualValue(benchmark);
+    const difference = totalPortfolioValue - counterfactualValue;
+    return {
+      benchmark,
+      counterfactualValue: Math.round(counterfactualValue * 100) / 100,
+      counterfactualReturn: percentOfBasis(counterfactualValue - totalCostBasis),
+      difference: Math.round(difference * 100) / 100,
+      percentageDifference: percentOfBasis(difference),
+    };
+  });
+
+  // Realized gains come straight from the tax lots, so tickers the breakdown
+  // skips for lack of price data still count
+  const { realizedLots } = buildTaxLots(trades, options.lotMethod ?? DEFAULT_LOT_METHOD);
+  const realizedGain = realizedLots.reduce((sum, lot) => sum + lot.gain, 0);
+  const unrealizedGain = breakdown.reduce((sum, b) => sum + b.unrealizedGain, 0);
+
+  // Annualized returns come from the time series, whose values match the contributions used there
+  const annualized = calculateAnnualizedReturns(
+    timeSeries, getContributions(cashFlows, trades), benchmarks[0]
+  );
+
+  // Trade commissions plus fees charged to the account; both are already out of the portfolio value
+  const totalFees = trades.reduce((sum, t) => sum + (t.fees ?? 0), 0)
+    + cashFlows.filter(cf => cf.type === 'fee').reduce((sum, cf) => sum + cf.amount, 0);
+
+  // Find best and worst performers (by difference vs the benchmark)
   let bestPerformer = breakdown[0];
   let worstPerformer = breakdown[0];
 
@@ -454,16 +901,47 @@ export function calculateSummary(
   return {
     totalCostBasis: Math.round(totalCostBasis * 100) / 100,
     totalPortfolioValue: Math.round(totalPortfolioValue * 100) / 100,
+    cashBalance: Math.round(cashBalance * 100) / 100,
+    realizedGain: Math.round(realizedGain * 100) / 100,
+    unrealizedGain: Math.round(unrealizedGain * 100) / 100,
     totalCounterfactualValue: Math.round(totalCounterfactualValue * 100) / 100,
-    portfolioReturn: Math.round(portfolioReturn * 100) / 100,
-    counterfactualReturn: Math.round(counterfactualReturn * 100) / 100,
+    portfolioReturn: percentOfBasis(totalPortfolioValue - totalCostBasis),
+    counterfactualReturn: percentOfBasis(totalCounterfactualValue - totalCostBasis),
     totalDifference: Math.round(totalDifference * 100) / 100,
-    percentageDifference: Math.round(percentageDifference * 100) / 100,
+    percentageDifference: percentOfBasis(totalDifference),
+    benchmarkComparisons,
+    ...annualized,
+    totalFees: Math.round(totalFees * 100) / 100,
+    expenseRatio: options.expenseRatio ?? 0,
     bestPerformer: { ticker: bestPerformer.ticker, difference: bestPerformer.difference },
     worstPerformer: { ticker: worstPerformer.ticker, difference: worstPerformer.difference },
   };
 }
 
+// Money-weighted (XIRR) and time-weighted (CAGR) annual returns for the portfolio and primary benchmark
+function calculateAnnualizedReturns(
+  timeSeries: PortfolioDataPoint[],
+  contributions: Contribution[],
+  benchmark: string
+): Pick<SummaryData, 'portfolioXirr' | 'counterfactualXirr' | 'portfolioCagr' | 'counterfactualCagr'> {
+  if (timeSeries.length === 0) {
+    return { portfolioXirr: null, counterfactualXirr: null, portfolioCagr: null, counterfactualCagr: null };
+  }
+
+  const first = timeSeries[0];
+  const last = timeSeries[timeSeries.length - 1];
+  const round = (value: number | null) => value === null ? null : Math.round(value * 100) / 100;
+
+  return {
+    portfolioXirr: round(calculateXirr(contributions, last.portfolioValue, last.date)),
+    counterfactualXirr: round(calculateXirr(contributions, last.counterfactualValues[benchmark] ?? 0, last.date)),
+    portfolioCagr: round(annualizeReturn(last.portfolioTimeWeightedReturn, first.date, last.date)),
+    counterfactualCagr: round(annualizeReturn(
+      last.counterfactualTimeWeightedReturns[benchmark] ?? 0, first.date, last.date
+    )),
+  };
+}
+
 // Get the end date for API requests (exclusive, so add 1 day after market close)
 function getEndDateForApi(): string {
   const etNow = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }));
@@ -0,0 +1,75 @@
+// Monthly and yearly returns for the calendar heatmap
+
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { CalendarReturn, CalendarYear } from '../types/CalendarReturns';
+
+function toCalendarReturn(
+  portfolioStart: number,
+  portfolioEnd: number,
+  benchmarkStart: number,
+  benchmarkEnd: number,
+): CalendarReturn {
+  // Nothing left to grow after a total loss
+  const portfolio = portfolioStart > 0 ? (portfolioEnd / portfolioStart - 1) * 100 : 0;
+  const benchmark = benchmarkStart > 0 ? (benchmarkEnd / benchmarkStart - 1) * 100 : 0;
+  return {
+    portfolio: Math.round(portfolio * 100) / 100,
+    benchmark: Math.round(benchmark * 100) / 100,
+    difference: Math.round((portfolio - benchmark) * 100) / 100,
+  };
+}
+
+/**
+ * Portfolio and benchmark returns for every calendar month and year covered by
+ * the daily series, oldest year first.
+ *
+ * Returns are taken from the time-weighted series, which nets each deposit out
+ * on the day it lands, so money added during a month isn't counted as a gain.
+ * Each period runs from the last day of the previous period (or from the start
+ * of the series) to its own last day; partial first and last periods cover
+ * only the days in the series.
+ */
+export function calculateCalendarReturns(dailySeries: PortfolioDataPoint[], benchmark: string): CalendarYear[] {
+  const years = new Map<number, CalendarYear>();
+
+  // Growth of $1 at the end of the previous month and year
+  let monthStartPortfolio = 1;
+  let monthStartBenchmark = 1;
+  let yearStartPortfolio = 1;
+  let yearStartBenchmark = 1;
+
+  for (let i = 0; i < dailySeries.length; i++) {
+    const point = dailySeries[i];
+    const next = dailySeries[i + 1];
+    const isMonthEnd = !next || next.date.slice(0, 7) !== point.date.slice(0, 7);
+    if (!isMonthEnd) continue;
+
+    const year = Number(point.date.slice(0, 4));
+    const month = Number(point.date.slice(5, 7)) - 1;
+    const portfolioGrowth = 1 + point.portfolioTimeWeightedReturn / 100;
+    const benchmarkGrowth = 1 + (point.counterfactualTimeWeightedReturns[benchmark] ?? 0) / 100;
+
+    let calendarYear = years.get(year);
+    if (!calendarYear) {
+      calendarYear = { year, months: new Array(12).fill(null), annual: toCalendarReturn(1, 1, 1, 1) };
+      years.set(year, calendarYear);
+    }
+
+    calendarYear.months[month] = toCalendarReturn(
+      monthStartPortfolio, portfolioGrowth, monthStartBenchmark, benchmarkGrowth
+    );
+    calendarYear.annual = toCalendarReturn(
+      yearStartPortfolio, portfolioGrowth, yearStartBenchmark, benchmarkGrowth
+    );
+
+    monthStartPortfolio = portfolioGrowth;
+    monthStartBenchmark = benchmarkGrowth;
+    const isYearEnd = !next || next.date.slice(0, 4) !== point.date.slice(0, 4);
+    if (isYearEnd) {
+      yearStartPortfolio = portfolioGrowth;
+      yearStartBenchmark = benchmarkGrowth;
+    }
+  }
+
+  return [...years.values()];
+}
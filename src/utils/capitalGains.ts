@@ -0,0 +1,105 @@
+// Capital gains report: realized lots grouped by tax year and holding term
+
+import type { RealizedLot } from '../types/TaxLot';
+import type { CapitalGainRow, CapitalGainsTotals, CapitalGainsYear, HoldingTerm } from '../types/CapitalGains';
+import { exportCSV } from './csvMerger';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Long-term once the shares are held for more than one year: the day after the
+ * one-year anniversary of the purchase. A lot bought 2023-03-15 and sold
+ * 2024-03-15 is still short-term.
+ */
+export function getHoldingTerm(acquiredDate: string, soldDate: string): HoldingTerm {
+  const [year, month, day] = acquiredDate.split('-').map(Number);
+  const anniversary = new Date(Date.UTC(year + 1, month - 1, day));
+  const sold = new Date(soldDate + 'T00:00:00Z');
+  return sold > anniversary ? 'long' : 'short';
+}
+
+function daysBetween(start: string, end: string): number {
+  const ms = new Date(end + 'T00:00:00Z').getTime() - new Date(start + 'T00:00:00Z').getTime();
+  return Math.round(ms / MS_PER_DAY);
+}
+
+function sumTotals(rows: CapitalGainRow[]): CapitalGainsTotals {
+  return rows.reduce(
+    (totals, row) => ({
+      proceeds: totals.proceeds + row.proceeds,
+      costBasis: totals.costBasis + row.costBasis,
+      gain: totals.gain + row.gain,
+    }),
+    { proceeds: 0, costBasis: 0, gain: 0 },
+  );
+}
+
+/**
+ * Group realized lots by the year they were sold in, newest year first.
+ * Rows within a year are ordered by sale date, then ticker.
+ */
+export function buildCapitalGainsReport(realizedLots: RealizedLot[]): CapitalGainsYear[] {
+  const rowsByYear = new Map<number, CapitalGainRow[]>();
+
+  for (const lot of realizedLots) {
+    const year = Number(lot.soldDate.slice(0, 4));
+    const rows = rowsByYear.get(year) ?? [];
+    rows.push({
+      ticker: lot.ticker,
+      acquiredDate: lot.acquiredDate,
+      soldDate: lot.soldDate,
+      shares: lot.shares,
+      proceeds: lot.proceeds,
+      costBasis: lot.costBasis,
+      gain: lot.gain,
+      holdingDays: daysBetween(lot.acquiredDate, lot.soldDate),
+      term: getHoldingTerm(lot.acquiredDate, lot.soldDate),
+    });
+    rowsByYear.set(year, rows);
+  }
+
+  return [...rowsByYear.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([year, rows]) => {
+      rows.sort((a, b) => a.soldDate.localeCompare(b.soldDate) || a.ticker.localeCompare(b.ticker));
+      return {
+        year,
+        rows,
+        shortTerm: sumTotals(rows.filter(row => row.term === 'short')),
+        longTerm: sumTotals(rows.filter(row => row.term === 'long')),
+      };
+    });
+}
+
+// One row per realized lot, short-term first, followed by a subtotal per term
+export function capitalGainsToCsv(report: CapitalGainsYear): string {
+  const headers = [
+    'Tax Year', 'Term', 'Ticker', 'Date Acquired', 'Date Sold', 'Holding Period (days)',
+    'Shares', 'Proceeds', 'Cost Basis', 'Gain',
+  ];
+  const money = (value: number) => value.toFixed(2);
+  // Six places covers fractional shares; the round trip drops float noise and trailing zeros
+  const shareCount = (value: number) => String(Number(value.toFixed(6)));
+
+  const rows: string[][] = [];
+  for (const term of ['short', 'long'] as const) {
+    const label = term === 'short' ? 'Short-term' : 'Long-term';
+    const termRows = report.rows.filter(row => row.term === term);
+    if (termRows.length === 0) continue;
+
+    for (const row of termRows) {
+      rows.push([
+        String(report.year), label, row.ticker, row.acquiredDate, row.soldDate, String(row.holdingDays),
+        shareCount(row.shares), money(row.proceeds), money(row.costBasis), money(row.gain),
+      ]);
+    }
+
+    const totals = term === 'short' ? report.shortTerm : report.longTerm;
+    rows.push([
+      String(report.year), `${label} total`, '', '', '', '',
+      '', money(totals.proceeds), money(totals.costBasis), money(totals.gain),
+    ]);
+  }
+
+  return exportCSV(headers, rows);
+}
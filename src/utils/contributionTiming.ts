@@ -0,0 +1,42 @@
+// Alternative timings for the money put in, to compare against the actual deposit dates
+
+import type { Contribution, ContributionSchedule } from '../types/Contribution';
+import { addDays, addMonths } from './dates';
+
+/**
+ * The same net total as the actual contributions, split into equal amounts on a
+ * fixed schedule from the first contribution to the last. Months are counted
+ * from the first date so short months don't push later dates earlier.
+ * Returns nothing when no money went in on balance.
+ */
+export function buildScheduledContributions(
+  contributions: Contribution[],
+  schedule: ContributionSchedule
+): Contribution[] {
+  if (contributions.length === 0) return [];
+  const total = contributions.reduce((sum, c) => sum + c.amount, 0);
+  if (total <= 0) return [];
+
+  const dates = contributions.map(c => c.date).sort();
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+
+  const scheduleDates: string[] = [];
+  for (let step = 0; ; step++) {
+    const date = schedule === 'monthly' ? addMonths(first, step) : addDays(first, step * 14);
+    if (date > last) break;
+    scheduleDates.push(date);
+  }
+
+  const amount = total / scheduleDates.length;
+  return scheduleDates.map(date => ({ date, amount }));
+}
+
+/**
+ * Perfect hindsight: the net total of every contribution invested at once on
+ * the given date (the first trade). Returns nothing when no money went in on balance.
+ */
+export function buildLumpSumContribution(contributions: Contribution[], date: string): Contribution[] {
+  const total = contributions.reduce((sum, c) => sum + c.amount, 0);
+  return total > 0 ? [{ date, amount: total }] : [];
+}
@@ -0,0 +1,22 @@
+// Calendar arithmetic on YYYY-MM-DD date strings, in UTC
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Same day n months later, clamped to the end of a shorter month (2024-01-31 → 2024-02-29)
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const totalMonths = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(totalMonths / 12);
+  const targetMonth = totalMonths % 12;
+  const daysInMonth = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+  const targetDay = Math.min(day, daysInMonth);
+  return `${targetYear}-${String(targetMonth + 1).padStart(2, '0')}-${String(targetDay).padStart(2, '0')}`;
+}
+
+export function subtractMonths(date: string, months: number): string {
+  return addMonths(date, -months);
+}
@@ -6,10 +6,16 @@ function makePoint(date: string): PortfolioDataPoint {
   return {
     date,
     portfolioValue: 100,
-    counterfactualValue: 100,
+    cashBalance: 0,
+    buyAndHoldValue: 100,
+    counterfactualValues: { SPY: 100 },
+    dcaValue: 0,
+    lumpSumValue: 0,
     totalDeposits: 100,
     portfolioReturn: 0,
-    counterfactualReturn: 0,
+    counterfactualReturns: { SPY: 0 },
+    portfolioTimeWeightedReturn: 0,
+    counterfactualTimeWeightedReturns: { SPY: 0 },
   };
 }
 
@@ -0,0 +1,153 @@
+// Drawdown analysis on the time-weighted growth of a series, so deposits don't count as recoveries
+
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { DrawdownPoint, DrawdownReport, DrawdownStats } from '../types/Drawdown';
+
+const MS_PER_DAY = 86400000;
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (new Date(end + 'T00:00:00').getTime() - new Date(start + 'T00:00:00').getTime()) / MS_PER_DAY
+  );
+}
+
+/**
+ * Drawdown (in percent) on each day of a cumulative time-weighted return
+ * series: how far growth is below its running peak.
+ */
+export function calculateDrawdowns(cumulativeReturns: number[]): number[] {
+  let peak = 1;
+  return cumulativeReturns.map(r => {
+    const growth = 1 + r / 100;
+    peak = Math.max(peak, growth);
+    return peak > 0 ? (growth / peak - 1) * 100 : 0;
+  });
+}
+
+/**
+ * Deepest drawdown with its peak, trough and recovery dates, plus the longest
+ * stretch spent below a previous peak. Durations are in calendar days.
+ */
+export function analyzeDrawdowns(dates: string[], cumulativeReturns: number[]): DrawdownStats {
+  const drawdowns = calculateDrawdowns(cumulativeReturns);
+
+  let maxDrawdown = 0;
+  let peakDate: string | null = null;
+  let troughDate: string | null = null;
+  let recoveryDate: string | null = null;
+  let longestDrawdownDays = 0;
+
+  let currentPeakDate = dates[0] ?? null;
+  let underwaterSince: string | null = null;
+
+  for (let i = 0; i < drawdowns.length; i++) {
+    if (drawdowns[i] >= 0) {
+      if (underwaterSince !== null) {
+        longestDrawdownDays = Math.max(longestDrawdownDays, daysBetween(underwaterSince, dates[i]));
+        // Back at the peak the deepest drawdown fell from
+        if (peakDate === underwaterSince && recoveryDate === null) {
+          recoveryDate = dates[i];
+        }
+        underwaterSince = null;
+      }
+      currentPeakDate = dates[i];
+      continue;
+    }
+
+    underwaterSince ??= currentPeakDate;
+    if (drawdowns[i] < maxDrawdown) {
+      maxDrawdown = drawdowns[i];
+      troughDate = dates[i];
+      if (peakDate !== underwaterSince) {
+        peakDate = underwaterSince;
+        recoveryDate = null;
+      }
+    }
+  }
+
+  const lastDate = dates[dates.length - 1];
+  if (underwaterSince !== null && lastDate) {
+    longestDrawdownDays = Math.max(longestDrawdownDays, daysBetween(underwaterSince, lastDate));
+  }
+
+  let durationDays: number | null = null;
+  if (peakDate !== null) {
+    durationDays = daysBetween(peakDate, recoveryDate ?? lastDate);
+  }
+
+  return {
+    maxDrawdown,
+    peakDate,
+    troughDate,
+    recoveryDate,
+    durationDays,
+    recoveryDays: recoveryDate !== null && troughDate !== null ? daysBetween(troughDate, recoveryDate) : null,
+    longestDrawdownDays,
+    currentDrawdown: drawdowns[drawdowns.length - 1] ?? 0,
+  };
+}
+
+/**
+ * Thin the underwater series for charting. Each bucket keeps its deepest value
+ * per series instead of one sampled day, so short crashes stay visible.
+ */
+export function downsampleDrawdowns(points: DrawdownPoint[], maxPoints: number): DrawdownPoint[] {
+  if (points.length <= maxPoints) return points;
+
+  const bucketSize = Math.ceil(points.length / maxPoints);
+  const result: DrawdownPoint[] = [];
+  for (let start = 0; start < points.length; start += bucketSize) {
+    const bucket = points.slice(start, start + bucketSize);
+    const counterfactuals: Record<string, number> = {};
+    for (const id of Object.keys(bucket[0].counterfactuals)) {
+      counterfactuals[id] = Math.min(...bucket.map(p => p.counterfactuals[id] ?? 0));
+    }
+    result.push({
+      date: bucket[0].date,
+      portfolio: Math.min(...bucket.map(p => p.portfolio)),
+      counterfactuals,
+    });
+  }
+  return result;
+}
+
+/**
+ * Drawdowns for the portfolio and every counterfactual from the daily (not
+ * downsampled) time series, with an underwater series thinned to maxPoints.
+ */
+export function calculateDrawdownReport(
+  dailySeries: PortfolioDataPoint[],
+  benchmarkIds: string[],
+  maxPoints: number,
+): DrawdownReport {
+  const dates = dailySeries.map(p => p.date);
+  const portfolioReturns = dailySeries.map(p => p.portfolioTimeWeightedReturn);
+  const portfolioDrawdowns = calculateDrawdowns(portfolioReturns);
+
+  const counterfactualReturns: Record<string, number[]> = {};
+  const counterfactualDrawdowns: Record<string, number[]> = {};
+  const counterfactuals: Record<string, DrawdownStats> = {};
+  for (const id of benchmarkIds) {
+    counterfactualReturns[id] = dailySeries.map(p => p.counterfactualTimeWeightedReturns[id] ?? 0);
+    counterfactualDrawdowns[id] = calculateDrawdowns(counterfactualReturns[id]);
+    counterfactuals[id] = analyzeDrawdowns(dates, counterfactualReturns[id]);
+  }
+
+  const series: DrawdownPoint[] = dates.map((date, i) => {
+    const values: Record<string, number> = {};
+    for (const id of benchmarkIds) {
+      values[id] = Math.round(counterfactualDrawdowns[id][i] * 100) / 100;
+    }
+    return {
+      date,
+      portfolio: Math.round(portfolioDrawdowns[i] * 100) / 100,
+      counterfactuals: values,
+    };
+  });
+
+  return {
+    series: downsampleDrawdowns(series, maxPoints),
+    portfolio: analyzeDrawdowns(dates, portfolioReturns),
+    counterfactuals,
+  };
+}
@@ -1,7 +1,7 @@
 import type { Trade } from '../../types/Trade';
 import type { CashFlow } from '../../types/CashFlow';
 import type { PortfolioData } from '../../types/PortfolioData';
-import { convertDateFormat, parseMultiLineCSV } from './shared';
+import { convertDateFormat, parseMultiLineCSV, parseFees } from './shared';
 
 // Detect if this is a Fidelity CSV
 export function isFidelityFormat(header: string[]): boolean {
@@ -24,6 +24,8 @@ export function parseFidelityCSV(csvText: string): PortfolioData {
   const priceIndex = header.indexOf('price ($)');
   const quantityIndex = header.indexOf('quantity');
   const amountIndex = header.indexOf('amount ($)');
+  const commissionIndex = header.indexOf('commission ($)');
+  const feesIndex = header.indexOf('fees ($)');
 
   const trades: Trade[] = [];
   const cashFlows: CashFlow[] = [];
@@ -47,6 +49,7 @@ export function parseFidelityCSV(csvText: string): PortfolioData {
     const price = priceRaw ? parseFloat(priceRaw) : NaN;
     const quantity = quantityRaw ? parseFloat(quantityRaw) : NaN;
     const amount = amountRaw ? parseFloat(amountRaw) : NaN;
+    const fees = parseFees(values[commissionIndex], values[feesIndex]);
 
     const actionUpper = action.toUpperCase();
 
@@ -64,6 +67,7 @@ export function parseFidelityCSV(csvText: string): PortfolioData {
         shares: Math.abs(quantity),
         type: 'buy',
         ...(isNaN(price) || price === 0 ? {} : { price }),
+        ...(fees > 0 ? { fees } : {}),
       });
       continue;
     }
@@ -82,6 +86,7 @@ export function parseFidelityCSV(csvText: string): PortfolioData {
         shares: Math.abs(quantity),
         type: 'sell',
         ...(isNaN(price) || price === 0 ? {} : { price }),
+        ...(fees > 0 ? { fees } : {}),
       });
       continue;
     }
@@ -112,6 +117,7 @@ export function parseFidelityCSV(csvText: string): PortfolioData {
         shares: quantity,
         type: 'buy',
         ...(isNaN(price) || price === 0 ? {} : { price }),
+        ...(fees > 0 ? { fees } : {}),
       });
       continue;
     }
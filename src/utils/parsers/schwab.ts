@@ -1,7 +1,7 @@
 import type { Trade } from '../../types/Trade';
 import type { CashFlow } from '../../types/CashFlow';
 import type { PortfolioData } from '../../types/PortfolioData';
-import { parseCSVLine, convertDateFormat } from './shared';
+import { parseCSVLine, convertDateFormat, parseFees } from './shared';
 
 // Detect if this is a Schwab Equity Vests CSV
 export function isSchwabFormat(header: string[]): boolean {
@@ -20,6 +20,7 @@ export function parseSchwabCSV(lines: string[]): PortfolioData {
   const symbolIndex = header.indexOf('symbol');
   const quantityIndex = header.indexOf('quantity');
   const priceIndex = header.indexOf('price');
+  const feesIndex = header.indexOf('fees & comm');
 
   const trades: Trade[] = [];
   const cashFlows: CashFlow[] = [];
@@ -43,6 +44,7 @@ export function parseSchwabCSV(lines: string[]): PortfolioData {
     const quantity = parseFloat(values[quantityIndex]);
     const priceRaw = values[priceIndex]?.replace('$', '');
     const price = priceRaw ? parseFloat(priceRaw) : NaN;
+    const fees = parseFees(values[feesIndex]);
 
     if (!symbol || !dateRaw || isNaN(quantity) || quantity <= 0) {
       continue;
@@ -57,15 +59,17 @@ export function parseSchwabCSV(lines: string[]): PortfolioData {
       shares: quantity,
       type: 'buy',
       ...(isNaN(price) ? {} : { price }),
+      ...(fees > 0 ? { fees } : {}),
     });
 
     // Synthesize a cashflow for the vest value
     if (!isNaN(price) && price > 0) {
-      // Price available in CSV — emit a deposit with the known amount
+      // Price available in CSV — emit a deposit with the known amount,
+      // fees included so they don't draw down the cash balance
       cashFlows.push({
         id: `cashflow-${date}-${i}`,
         date,
-        amount: quantity * price,
+        amount: quantity * price + fees,
         type: 'deposit',
       });
     } else {
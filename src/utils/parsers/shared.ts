@@ -81,6 +81,14 @@ export function parseMultiLineCSV(csvText: string): string[][] {
   return rows;
 }
 
+// Total of fee columns such as "$1.50" or "(0.02)"; blanks count as zero
+export function parseFees(...values: (string | undefined)[]): number {
+  return values.reduce((sum, value) => {
+    const fee = parseFloat(value?.replace(/[$(),]/g, '') ?? '');
+    return isNaN(fee) ? sum : sum + Math.abs(fee);
+  }, 0);
+}
+
 // Map Robinhood trans codes to cash flow types
 export function getCashFlowType(transCode: string): CashFlowType | null {
   switch (transCode) {
@@ -89,6 +97,7 @@ export function getCashFlowType(transCode: string): CashFlowType | null {
     case 'SCAP':
     case 'LCAP': return 'capgain';
     case 'INT': return 'interest';
+    case 'AFEE': return 'fee'; // ADR custody fee
     default: return null;
   }
 }
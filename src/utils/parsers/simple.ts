@@ -1,9 +1,9 @@
 import type { Trade } from '../../types/Trade';
 import type { CashFlow } from '../../types/CashFlow';
 import type { PortfolioData } from '../../types/PortfolioData';
-import { parseCSVLine, convertDateFormat } from './shared';
+import { parseCSVLine, convertDateFormat, parseFees } from './shared';
 
-// Parse simple CSV format (ticker, date, shares, price)
+// Parse simple CSV format (ticker, date, shares, price, type, lot, fees)
 export function parseSimpleCSV(lines: string[]): PortfolioData {
   const header = parseCSVLine(lines[0]).map(h => h.toLowerCase());
 
@@ -12,13 +12,17 @@ export function parseSimpleCSV(lines: string[]): PortfolioData {
   const sharesIndex = header.indexOf('shares');
   const priceIndex = header.indexOf('price');
   const typeIndex = header.indexOf('type');
+  const lotIndex = header.indexOf('lot');
+  const feesIndex = header.indexOf('fees');
 
   if (tickerIndex === -1 || dateIndex === -1 || sharesIndex === -1) {
-    throw new Error('CSV must have columns: ticker, date, shares (price and type are optional)');
+    throw new Error('CSV must have columns: ticker, date, shares (price, type, lot and fees are optional)');
   }
 
   const trades: Trade[] = [];
   const cashFlows: CashFlow[] = [];
+  // Sells that name the purchase date of the lot they sell from
+  const lotDates = new Map<Trade, string>();
 
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -32,31 +36,47 @@ export function parseSimpleCSV(lines: string[]): PortfolioData {
     const price = priceIndex !== -1 ? parseFloat(values[priceIndex]) : NaN;
     const typeRaw = typeIndex !== -1 ? values[typeIndex]?.toLowerCase() : 'buy';
     const type = typeRaw === 'sell' ? 'sell' : 'buy';
+    const fees = feesIndex !== -1 ? parseFees(values[feesIndex]) : 0;
 
     if (!ticker || !date || isNaN(shares)) {
       console.warn(`Skipping invalid row ${i + 1}: ${line}`);
       continue;
     }
 
-    trades.push({
+    const trade: Trade = {
       id: `${ticker}-${date}-${i}`,
       ticker,
       date,
       shares,
       type,
       ...(isNaN(price) ? {} : { price }),
-    });
+      ...(fees > 0 ? { fees } : {}),
+    };
+    trades.push(trade);
 
-    // Synthesize a deposit for buy trades with a known price
+    const lotRaw = lotIndex !== -1 ? values[lotIndex] : '';
+    if (type === 'sell' && lotRaw) {
+      lotDates.set(trade, convertDateFormat(lotRaw));
+    }
+
+    // Synthesize a deposit for buy trades with a known price, enough to cover the fees too
     if (type === 'buy' && !isNaN(price) && price > 0) {
       cashFlows.push({
         id: `cashflow-${date}-${i}`,
         date,
-        amount: shares * price,
+        amount: shares * price + fees,
         type: 'deposit',
       });
     }
   }
 
+  // Point each of those sells at the buy made on that date (for specific-ID lot matching)
+  for (const [sell, lotDate] of lotDates) {
+    const lot = trades.find(t => t.type === 'buy' && t.ticker === sell.ticker && t.date === lotDate);
+    if (lot) {
+      sell.lotId = lot.id;
+    }
+  }
+
   return { trades, cashFlows, format: 'simple' };
 }
@@ -0,0 +1,102 @@
+// Price lookups over date-sorted price series, including undoing Yahoo's split adjustment
+
+import type { StockPrice } from '../types/StockPrice';
+import type { StockSplit } from '../types/StockSplit';
+import type { ReturnBasis } from '../types/AnalysisSettings';
+
+// Get price on or before date using sorted array (binary search approach)
+export function getPriceOnOrBefore(prices: StockPrice[], targetDate: string): number | null {
+  return getPricePointOnOrBefore(prices, targetDate)?.price ?? null;
+}
+
+// The whole price entry on or before date (the first one before the series starts)
+export function getPricePointOnOrBefore(prices: StockPrice[], targetDate: string): StockPrice | null {
+  if (prices.length === 0) return null;
+
+  // Binary search for the largest date <= targetDate
+  let left = 0;
+  let right = prices.length - 1;
+  let result: StockPrice | null = null;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    if (prices[mid].date <= targetDate) {
+      result = prices[mid];
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+
+  return result ?? prices[0];
+}
+
+// Calculate cumulative split factor for all splits AFTER a given date
+// This is used to un-adjust Yahoo's split-adjusted prices back to actual historical prices
+export function getSplitAdjustmentFactor(splits: StockSplit[], priceDate: string): number {
+  let factor = 1;
+  for (const split of splits) {
+    // If the split happened AFTER the price date, we need to adjust
+    if (split.date > priceDate) {
+      factor *= split.splitFactor;
+    }
+  }
+  return factor;
+}
+
+// Build unadjusted price map - convert Yahoo's split-adjusted prices back to actual historical prices
+export function buildUnadjustedPriceMap(prices: StockPrice[], splits: StockSplit[]): Map<string, number> {
+  const map = new Map<string, number>();
+  const sortedSplits = [...splits].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const p of prices) {
+    // Multiply by split factor to un-adjust the price
+    const factor = getSplitAdjustmentFactor(sortedSplits, p.date);
+    map.set(p.date, p.price * factor);
+  }
+  return map;
+}
+
+// Get unadjusted price on or before a date
+export function getUnadjustedPriceOnOrBefore(prices: StockPrice[], splits: StockSplit[], targetDate: string): number | null {
+  if (prices.length === 0) return null;
+
+  const sortedSplits = [...splits].sort((a, b) => a.date.localeCompare(b.date));
+
+  // Binary search for the largest date <= targetDate
+  let left = 0;
+  let right = prices.length - 1;
+  let resultPrice: number | null = null;
+  let resultDate: string | null = null;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    if (prices[mid].date <= targetDate) {
+      resultPrice = prices[mid].price;
+      resultDate = prices[mid].date;
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+
+  if (resultPrice === null) {
+    resultPrice = prices.length > 0 ? prices[0].price : null;
+    resultDate = prices.length > 0 ? prices[0].date : null;
+  }
+
+  if (resultPrice === null || resultDate === null) return null;
+
+  // Apply split adjustment
+  const factor = getSplitAdjustmentFactor(sortedSplits, resultDate);
+  return resultPrice * factor;
+}
+
+// Point each entry's `price` at the raw close or the dividend-adjusted close.
+// Entries without the chosen field keep their existing price.
+export function selectReturnBasis(prices: StockPrice[], basis: ReturnBasis): StockPrice[] {
+  return prices.map(p => {
+    const price = basis === 'total' ? (p.adjClose ?? p.close) : p.close;
+    return price === undefined ? p : { ...p, price };
+  });
+}
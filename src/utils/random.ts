@@ -0,0 +1,16 @@
+// Seeded pseudo-random numbers, so resampling gives the same answer on every run
+
+/**
+ * Mulberry32: a small, fast 32-bit generator. Returns a function producing
+ * numbers in [0, 1), the same sequence for the same seed.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,135 @@
+// Random-portfolio yardstick: where the actual result ranks among random stock picks funded the same way
+
+import type { Trade } from '../types/Trade';
+import type { CashFlow } from '../types/CashFlow';
+import type { StockPrice } from '../types/StockPrice';
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { RandomPortfolioBucket, RandomPortfolioRanking } from '../types/RandomPortfolios';
+import { getContributions } from './calculations';
+import { getPriceOnOrBefore } from './priceLookup';
+import { createRandom } from './random';
+import {
+  RANDOM_PORTFOLIO_BUCKETS,
+  RANDOM_PORTFOLIO_COUNT,
+  RANDOM_PORTFOLIO_SEED,
+} from '../config/randomUniverse';
+
+interface RandomPortfolioOptions {
+  count?: number;
+  seed?: number;
+  buckets?: number;
+}
+
+// k distinct items, by a partial Fisher-Yates shuffle
+function pickDistinct<T>(items: T[], k: number, random: () => number): T[] {
+  const pool = [...items];
+  for (let i = 0; i < k; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, k);
+}
+
+function percentileOf(sorted: number[], p: number): number {
+  const rank = p * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function buildHistogram(sorted: number[], buckets: number): RandomPortfolioBucket[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / buckets || 1;
+  const histogram = Array.from({ length: buckets }, (_, i) => ({
+    from: Math.round((min + i * width) * 100) / 100,
+    to: Math.round((min + (i + 1) * width) * 100) / 100,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    histogram[Math.min(buckets - 1, Math.floor((value - min) / width))].count++;
+  }
+  return histogram;
+}
+
+/**
+ * Each random portfolio receives the same dated contributions as the
+ * benchmark counterfactual (deposits, or trade amounts without them) and
+ * splits every one equally across the same number of stocks the portfolio
+ * traded, drawn from the universe and never traded again. The actual value
+ * is ranked against theirs on the last day the universe prices cover, which
+ * is the portfolio's last day unless they stop loading sooner.
+ *
+ * Only universe tickers already listed when the contributions start are
+ * eligible, so no pick buys in early at its later listing price. Returns null when there is nothing to
+ * compare with.
+ */
+export function calculateRandomPortfolioRanking(
+  trades: Trade[],
+  cashFlows: CashFlow[],
+  universePrices: Record<string, StockPrice[]>,
+  dailySeries: PortfolioDataPoint[],
+  options: RandomPortfolioOptions = {}
+): RandomPortfolioRanking | null {
+  const firstDates = Object.values(universePrices).flatMap(prices => (prices.length > 0 ? [prices[0].date] : []));
+  if (firstDates.length === 0) return null;
+  const pricedThrough = Object.values(universePrices)
+    .flatMap(prices => (prices.length > 0 ? [prices[prices.length - 1].date] : []))
+    .reduce((latest, date) => (date > latest ? date : latest));
+  const last = dailySeries.filter(point => point.date <= pricedThrough).pop();
+  const contributions = getContributions(cashFlows, [...trades].sort((a, b) => a.date.localeCompare(b.date)));
+  if (!last || contributions.length === 0) return null;
+
+  // Prices may start after earlier deposits or on the next trading day,
+  // so a ticker counts as listed if priced from whichever is later
+  const firstContribution = contributions.reduce((earliest, c) => (c.date < earliest ? c.date : earliest), contributions[0].date);
+  const firstPriced = firstDates.reduce((earliest, date) => (date < earliest ? date : earliest));
+  const listedBy = firstContribution > firstPriced ? firstContribution : firstPriced;
+  const universe = Object.keys(universePrices)
+    .filter(ticker => universePrices[ticker].length > 0 && universePrices[ticker][0].date <= listedBy)
+    .sort();
+  const stocksPerPortfolio = Math.min(new Set(trades.map(t => t.ticker)).size, universe.length);
+  if (stocksPerPortfolio === 0) return null;
+
+  const count = options.count ?? RANDOM_PORTFOLIO_COUNT;
+  const random = createRandom(options.seed ?? RANDOM_PORTFOLIO_SEED);
+
+  // Never rebalanced, so every contribution buys at its own date's price and
+  // each ticker's ending value from putting all of them in it is fixed. Work
+  // that out once per ticker; a portfolio is then the average over its picks.
+  const funded = contributions.filter(c => c.date <= last.date);
+  const endingValues: Record<string, number> = {};
+  for (const ticker of universe) {
+    const tickerPrices = universePrices[ticker];
+    let shares = 0;
+    for (const contribution of funded) {
+      const price = getPriceOnOrBefore(tickerPrices, contribution.date);
+      if (price) shares += contribution.amount / price;
+    }
+    endingValues[ticker] = shares * (getPriceOnOrBefore(tickerPrices, last.date) ?? 0);
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const picks = pickDistinct(universe, stocksPerPortfolio, random);
+    const value = picks.reduce((sum, ticker) => sum + endingValues[ticker], 0) / picks.length;
+    values.push(Math.max(0, value));
+  }
+  values.sort((a, b) => a - b);
+
+  const below = values.filter(v => v < last.portfolioValue).length;
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    simulations: count,
+    stocksPerPortfolio,
+    universeSize: universe.length,
+    asOf: last.date,
+    portfolioValue: last.portfolioValue,
+    percentile: Math.round((below / count) * 1000) / 10,
+    median: round(percentileOf(values, 0.5)),
+    low: round(percentileOf(values, 0.05)),
+    high: round(percentileOf(values, 0.95)),
+    histogram: buildHistogram(values, options.buckets ?? RANDOM_PORTFOLIO_BUCKETS),
+  };
+}
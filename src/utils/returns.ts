@@ -0,0 +1,114 @@
+// Time-weighted return helpers - strip the effect of deposit timing out of a value series
+
+import type { Contribution } from '../types/Contribution';
+
+/**
+ * Sum flows onto the dates they take effect: each flow lands on the first
+ * date on or after it (flows before the first date land on the first date,
+ * flows after the last date are dropped), matching how trades and benchmark
+ * contributions are applied.
+ */
+export function bucketFlowsByDate(flows: Contribution[], dates: string[]): number[] {
+  const buckets = new Array<number>(dates.length).fill(0);
+  const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+
+  let dateIndex = 0;
+  for (const flow of sortedFlows) {
+    while (dateIndex < dates.length && dates[dateIndex] < flow.date) {
+      dateIndex++;
+    }
+    if (dateIndex >= dates.length) break;
+    buckets[dateIndex] += flow.amount;
+  }
+
+  return buckets;
+}
+
+/**
+ * Cumulative time-weighted return (in percent) on each date.
+ *
+ * Each day is its own sub-period. Flows are treated as arriving at the end of
+ * the day, so the daily return is (value - flow) / previous value - 1; when
+ * nothing was invested the day before, the flow itself is the starting value.
+ * Daily returns are chain-linked, which makes the result independent of how
+ * much money was invested when. Days with nothing invested count as flat.
+ */
+export function calculateTimeWeightedReturns(values: number[], flows: number[]): number[] {
+  const cumulative: number[] = [];
+  let growth = 1;
+  let previousValue = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (previousValue > 0) {
+      growth *= (values[i] - flows[i]) / previousValue;
+    } else if (flows[i] > 0) {
+      growth *= values[i] / flows[i];
+    }
+    cumulative.push((growth - 1) * 100);
+    previousValue = values[i];
+  }
+
+  return cumulative;
+}
+
+const MS_PER_YEAR = 365 * 86400000;
+
+function yearsBetween(startDate: string, endDate: string): number {
+  return (new Date(endDate + 'T00:00:00').getTime() - new Date(startDate + 'T00:00:00').getTime()) / MS_PER_YEAR;
+}
+
+/**
+ * Annualized internal rate of return (XIRR, in percent) of a series of dated
+ * contributions that ended up worth terminalValue on endDate.
+ * Contributions are money put in (withdrawals are negative).
+ *
+ * Solved by bisection on the future value of the contributions, which is
+ * monotonic in the rate whenever money was only added. Returns null when the
+ * rate can't be determined, e.g. when everything happened on a single day.
+ */
+export function calculateXirr(contributions: Contribution[], terminalValue: number, endDate: string): number | null {
+  const flows = contributions
+    .filter(c => c.date <= endDate && c.amount !== 0)
+    .map(c => ({ amount: c.amount, years: yearsBetween(c.date, endDate) }));
+
+  if (flows.length === 0 || flows.every(f => f.years <= 0) || terminalValue < 0) {
+    return null;
+  }
+
+  // Future value of the contributions at the given rate, minus what they're worth now
+  const surplus = (rate: number) =>
+    flows.reduce((sum, f) => sum + f.amount * Math.pow(1 + rate, f.years), 0) - terminalValue;
+
+  let low = -0.9999;
+  let high = 1;
+  while (surplus(high) < 0 && high < 1e6) {
+    high *= 2;
+  }
+  if (surplus(low) > 0 || surplus(high) < 0) {
+    return null;
+  }
+
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const mid = (low + high) / 2;
+    if (surplus(mid) < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return ((low + high) / 2) * 100;
+}
+
+/**
+ * Compound annual growth rate (in percent) equivalent to a cumulative return
+ * earned between two dates. Returns null when there is no time to annualize over.
+ */
+export function annualizeReturn(cumulativeReturn: number, startDate: string, endDate: string): number | null {
+  const years = yearsBetween(startDate, endDate);
+  const growth = 1 + cumulativeReturn / 100;
+  if (years <= 0 || growth < 0) {
+    return null;
+  }
+  return (Math.pow(growth, 1 / years) - 1) * 100;
+}
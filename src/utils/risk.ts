@@ -0,0 +1,115 @@
+// Risk metrics from a daily time-weighted return series
+
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { RiskMetrics, RiskReport } from '../types/RiskMetrics';
+import { ANNUAL_RISK_FREE_RATE, TRADING_DAYS_PER_YEAR } from '../config/risk';
+
+/**
+ * Daily returns (as fractions) implied by a cumulative time-weighted return
+ * series in percent. Using the time-weighted series keeps deposits and
+ * withdrawals from showing up as gains or losses.
+ */
+export function getDailyReturns(cumulativeReturns: number[]): number[] {
+  const daily: number[] = [];
+  for (let i = 1; i < cumulativeReturns.length; i++) {
+    const previousGrowth = 1 + cumulativeReturns[i - 1] / 100;
+    // Nothing left to grow after a total loss; keep the days aligned across series
+    daily.push(previousGrowth > 0 ? (1 + cumulativeReturns[i] / 100) / previousGrowth - 1 : 0);
+  }
+  return daily;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Sample covariance; variance when both series are the same
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (a.length - 1);
+}
+
+/**
+ * Annualized risk metrics for one series of daily returns, with beta and
+ * Jensen's alpha measured against marketReturns (same days, same length).
+ *
+ * Sharpe divides the mean excess return by the standard deviation; Sortino
+ * divides it by the downside deviation (only returns below the risk-free rate
+ * count). Ratios are annualized by sqrt(252), alpha and volatility by 252 and
+ * sqrt(252). Metrics that can't be computed - fewer than two returns, or no
+ * variation to divide by - are null.
+ */
+export function calculateRiskMetrics(
+  returns: number[],
+  marketReturns: number[],
+  annualRiskFreeRate: number = ANNUAL_RISK_FREE_RATE,
+): RiskMetrics {
+  if (returns.length < 2) {
+    return { volatility: null, sharpeRatio: null, sortinoRatio: null, beta: null, alpha: null };
+  }
+
+  const dailyRiskFree = annualRiskFreeRate / TRADING_DAYS_PER_YEAR;
+  const annualizeRatio = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const excessMean = mean(returns) - dailyRiskFree;
+  const standardDeviation = Math.sqrt(covariance(returns, returns));
+  const downsideDeviation = Math.sqrt(mean(returns.map(r => Math.min(0, r - dailyRiskFree) ** 2)));
+
+  let beta: number | null = null;
+  let alpha: number | null = null;
+  if (marketReturns.length === returns.length) {
+    const marketVariance = covariance(marketReturns, marketReturns);
+    if (marketVariance > 0) {
+      beta = covariance(returns, marketReturns) / marketVariance;
+      const marketExcessMean = mean(marketReturns) - dailyRiskFree;
+      alpha = (excessMean - beta * marketExcessMean) * TRADING_DAYS_PER_YEAR * 100;
+    }
+  }
+
+  return {
+    volatility: standardDeviation * annualizeRatio * 100,
+    sharpeRatio: standardDeviation > 0 ? (excessMean / standardDeviation) * annualizeRatio : null,
+    sortinoRatio: downsideDeviation > 0 ? (excessMean / downsideDeviation) * annualizeRatio : null,
+    beta,
+    alpha,
+  };
+}
+
+/**
+ * Risk metrics for the portfolio and every counterfactual, from the daily
+ * (not downsampled) time series. Beta and alpha are measured against the
+ * primary benchmark's counterfactual, whose time-weighted return is the
+ * benchmark's own return.
+ */
+export function calculateRiskReport(
+  dailySeries: PortfolioDataPoint[],
+  benchmarkIds: string[],
+  annualRiskFreeRate: number = ANNUAL_RISK_FREE_RATE,
+): RiskReport {
+  const primary = benchmarkIds[0];
+  const marketReturns = getDailyReturns(
+    dailySeries.map(p => p.counterfactualTimeWeightedReturns[primary] ?? 0)
+  );
+
+  const counterfactuals: Record<string, RiskMetrics> = {};
+  for (const id of benchmarkIds) {
+    const returns = getDailyReturns(dailySeries.map(p => p.counterfactualTimeWeightedReturns[id] ?? 0));
+    counterfactuals[id] = calculateRiskMetrics(returns, marketReturns, annualRiskFreeRate);
+  }
+
+  return {
+    benchmark: primary,
+    riskFreeRate: annualRiskFreeRate * 100,
+    portfolio: calculateRiskMetrics(
+      getDailyReturns(dailySeries.map(p => p.portfolioTimeWeightedReturn)),
+      marketReturns,
+      annualRiskFreeRate,
+    ),
+    counterfactuals,
+  };
+}
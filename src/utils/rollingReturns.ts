@@ -0,0 +1,92 @@
+// Rolling-window returns: how the portfolio did against the benchmark over every window of a given length
+
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { RollingReturnPoint, RollingReturnSeries, RollingWindow } from '../types/RollingReturns';
+import { subtractMonths } from './dates';
+
+function windowReturn(startGrowth: number, endGrowth: number, window: RollingWindow): number {
+  if (startGrowth <= 0) return 0;
+  const growth = endGrowth / startGrowth;
+  if (window.annualized && growth > 0) {
+    return (Math.pow(growth, 12 / window.months) - 1) * 100;
+  }
+  return (growth - 1) * 100;
+}
+
+/**
+ * Portfolio and benchmark return over the window ending on each day of the
+ * daily series, from the time-weighted returns so deposits drop out. A window
+ * starts on the last day on or before the same date `months` earlier; days
+ * before the series covers a full window are skipped.
+ */
+export function calculateRollingReturns(
+  dailySeries: PortfolioDataPoint[],
+  benchmark: string,
+  window: RollingWindow,
+): RollingReturnSeries {
+  const points: RollingReturnPoint[] = [];
+  const portfolioGrowth = dailySeries.map(p => 1 + p.portfolioTimeWeightedReturn / 100);
+  const benchmarkGrowth = dailySeries.map(p => 1 + (p.counterfactualTimeWeightedReturns[benchmark] ?? 0) / 100);
+
+  let start = 0;
+  for (let end = 0; end < dailySeries.length; end++) {
+    const windowStart = subtractMonths(dailySeries[end].date, window.months);
+    if (dailySeries[0].date > windowStart) continue;
+
+    while (start + 1 < end && dailySeries[start + 1].date <= windowStart) {
+      start++;
+    }
+
+    const portfolio = windowReturn(portfolioGrowth[start], portfolioGrowth[end], window);
+    const benchmarkReturn = windowReturn(benchmarkGrowth[start], benchmarkGrowth[end], window);
+    points.push({
+      date: dailySeries[end].date,
+      portfolio: Math.round(portfolio * 100) / 100,
+      benchmark: Math.round(benchmarkReturn * 100) / 100,
+      excess: Math.round((portfolio - benchmarkReturn) * 100) / 100,
+    });
+  }
+
+  if (points.length === 0) {
+    return { window, points, winRate: null, averageExcess: null, bestExcess: null, worstExcess: null };
+  }
+
+  const excesses = points.map(p => p.excess);
+  return {
+    window,
+    points,
+    winRate: (excesses.filter(e => e > 0).length / excesses.length) * 100,
+    averageExcess: excesses.reduce((sum, e) => sum + e, 0) / excesses.length,
+    bestExcess: Math.max(...excesses),
+    worstExcess: Math.min(...excesses),
+  };
+}
+
+// Keep every nth point (and the last) so the chart stays under maxPoints
+export function thinRollingReturns(points: RollingReturnPoint[], maxPoints: number): RollingReturnPoint[] {
+  if (points.length <= maxPoints) return points;
+
+  const step = Math.ceil(points.length / maxPoints);
+  const thinned = points.filter((_, i) => i % step === 0);
+  if (thinned[thinned.length - 1] !== points[points.length - 1]) {
+    thinned.push(points[points.length - 1]);
+  }
+  return thinned;
+}
+
+/**
+ * Rolling returns for each window from the daily (not downsampled) series.
+ * The win rate and excess statistics cover every window; only the chart
+ * points are thinned to maxPoints.
+ */
+export function calculateRollingReport(
+  dailySeries: PortfolioDataPoint[],
+  benchmark: string,
+  windows: RollingWindow[],
+  maxPoints: number,
+): RollingReturnSeries[] {
+  return windows.map(window => {
+    const series = calculateRollingReturns(dailySeries, benchmark, window);
+    return { ...series, points: thinRollingReturns(series.points, maxPoints) };
+  });
+}
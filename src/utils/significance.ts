@@ -0,0 +1,99 @@
+// Bootstrap test of whether the portfolio's excess over the benchmark is more than noise
+
+import type { PortfolioDataPoint } from '../types/PortfolioDataPoint';
+import type { OutperformanceSignificance, SignificanceVerdict } from '../types/Significance';
+import { getDailyReturns } from './risk';
+import { createRandom } from './random';
+import { TRADING_DAYS_PER_YEAR } from '../config/risk';
+import {
+  BOOTSTRAP_SAMPLES,
+  BOOTSTRAP_SEED,
+  CONFIDENCE_LEVEL,
+  MIN_BOOTSTRAP_DAYS,
+  SIGNIFICANCE_LEVEL,
+} from '../config/significance';
+
+interface BootstrapOptions {
+  samples?: number;
+  seed?: number;
+  confidenceLevel?: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Linear interpolation between the closest ranks of a sorted array
+function percentile(sorted: number[], p: number): number {
+  const rank = p * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Daily excess returns (portfolio minus benchmark, from the time-weighted
+ * series so deposits don't count) are resampled with replacement. The spread
+ * of the resampled means gives the confidence interval; the same resamples
+ * shifted to a zero mean give the p-value. Days are treated as independent,
+ * which daily returns roughly are.
+ */
+export function bootstrapExcessReturns(
+  excessReturns: number[],
+  benchmark: string,
+  options: BootstrapOptions = {}
+): OutperformanceSignificance | null {
+  const days = excessReturns.length;
+  if (days < MIN_BOOTSTRAP_DAYS) return null;
+
+  const samples = options.samples ?? BOOTSTRAP_SAMPLES;
+  const confidenceLevel = options.confidenceLevel ?? CONFIDENCE_LEVEL;
+  const random = createRandom(options.seed ?? BOOTSTRAP_SEED);
+
+  const observed = mean(excessReturns);
+  const means: number[] = [];
+  for (let s = 0; s < samples; s++) {
+    let sum = 0;
+    for (let d = 0; d < days; d++) {
+      sum += excessReturns[Math.floor(random() * days)];
+    }
+    means.push(sum / days);
+  }
+  means.sort((a, b) => a - b);
+
+  // Under the null the resampled means spread around zero instead of the observed mean
+  const asExtreme = means.filter(m => Math.abs(m - observed) >= Math.abs(observed)).length;
+  const pValue = (asExtreme + 1) / (samples + 1);
+
+  const tail = (1 - confidenceLevel) / 2;
+  const annualize = (dailyMean: number) => Math.round(dailyMean * TRADING_DAYS_PER_YEAR * 100 * 100) / 100;
+
+  let verdict: SignificanceVerdict = 'noise';
+  if (pValue < SIGNIFICANCE_LEVEL) {
+    verdict = observed > 0 ? 'skill' : 'underperformance';
+  }
+
+  return {
+    benchmark,
+    days,
+    annualizedExcess: annualize(observed),
+    confidenceLow: annualize(percentile(means, tail)),
+    confidenceHigh: annualize(percentile(means, 1 - tail)),
+    confidenceLevel,
+    pValue: Math.round(pValue * 10000) / 10000,
+    verdict,
+  };
+}
+
+/**
+ * Significance of the outperformance over the primary benchmark, from the full
+ * daily series. Null when there are too few days to judge.
+ */
+export function calculateSignificance(
+  dailySeries: PortfolioDataPoint[],
+  benchmark: string,
+  options: BootstrapOptions = {}
+): OutperformanceSignificance | null {
+  const portfolio = getDailyReturns(dailySeries.map(p => p.portfolioTimeWeightedReturn));
+  const market = getDailyReturns(dailySeries.map(p => p.counterfactualTimeWeightedReturns[benchmark] ?? 0));
+  const excess = portfolio.map((r, i) => r - market[i]);
+  return bootstrapExcessReturns(excess, benchmark, options);
+}
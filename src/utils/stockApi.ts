@@ -1,20 +1,24 @@
 import type { StockPrice } from '../types/StockPrice';
 import type { PriceCache } from '../types/PriceCache';
 import type { StockSplit } from '../types/StockSplit';
+import type { StockDividend } from '../types/StockDividend';
 import { perf } from './logger';
 
 const priceCache: PriceCache = {};
 const splitsCache: Record<string, StockSplit[]> = {};
+const dividendsCache: Record<string, StockDividend[]> = {};
 
 interface ApiResponse {
   prices?: StockPrice[];
   splits?: StockSplit[];
+  dividends?: StockDividend[];
   error?: string;
 }
 
 export interface StockDataResult {
   prices: StockPrice[];
   splits: StockSplit[];
+  dividends: StockDividend[];
 }
 
 export async function fetchStockData(
@@ -24,8 +28,8 @@ export async function fetchStockData(
 ): Promise<StockDataResult> {
   const cacheKey = `${ticker}-${startDate}-${endDate}`;
 
-  if (priceCache[cacheKey] && splitsCache[cacheKey]) {
-    return { prices: priceCache[cacheKey], splits: splitsCache[cacheKey] };
+  if (priceCache[cacheKey] && splitsCache[cacheKey] && dividendsCache[cacheKey]) {
+    return { prices: priceCache[cacheKey], splits: splitsCache[cacheKey], dividends: dividendsCache[cacheKey] };
   }
 
   perf.start(`fetch:${ticker}`);
@@ -40,9 +44,11 @@ export async function fetchStockData(
 
   const prices = data.prices || [];
   const splits = data.splits || [];
+  const dividends = data.dividends || [];
   priceCache[cacheKey] = prices;
   splitsCache[cacheKey] = splits;
-  return { prices, splits };
+  dividendsCache[cacheKey] = dividends;
+  return { prices, splits, dividends };
 }
 
 export async function fetchStockPrices(
@@ -57,6 +63,7 @@ export async function fetchStockPrices(
 export interface MultipleStocksResult {
   prices: Record<string, StockPrice[]>;
   splits: Record<string, StockSplit[]>;
+  dividends: Record<string, StockDividend[]>;
 }
 
 export async function fetchMultipleStocks(
@@ -66,6 +73,7 @@ export async function fetchMultipleStocks(
 ): Promise<MultipleStocksResult> {
   const prices: Record<string, StockPrice[]> = {};
   const splits: Record<string, StockSplit[]> = {};
+  const dividends: Record<string, StockDividend[]> = {};
 
   const results = await Promise.allSettled(
     tickers.map((ticker) => fetchStockData(ticker, startDate, endDate))
@@ -76,14 +84,16 @@ export async function fetchMultipleStocks(
     if (result.status === 'fulfilled') {
       prices[tickers[i]] = result.value.prices;
       splits[tickers[i]] = result.value.splits;
+      dividends[tickers[i]] = result.value.dividends;
     } else {
       console.error(`Failed to fetch ${tickers[i]}:`, result.reason);
       prices[tickers[i]] = [];
       splits[tickers[i]] = [];
+      dividends[tickers[i]] = [];
     }
   }
 
-  return { prices, splits };
+  return { prices, splits, dividends };
 }
 
 export function getLatestPrice(prices: StockPrice[]): number {
@@ -0,0 +1,117 @@
+// Tax-lot tracking: every buy opens a lot, every sell closes shares from lots chosen by the lot method
+
+import type { Trade } from '../types/Trade';
+import type { LotMethod, RealizedLot, TaxLot } from '../types/TaxLot';
+
+export interface TaxLotResult {
+  openLots: TaxLot[];
+  realizedLots: RealizedLot[];
+}
+
+// Order in which a ticker's open lots are sold from
+function orderLots(lots: TaxLot[], method: LotMethod, specificLotId?: string): TaxLot[] {
+  const byDate = [...lots].sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate));
+  switch (method) {
+    case 'fifo':
+      return byDate;
+    case 'lifo':
+      return byDate.reverse();
+    case 'hifo':
+      return byDate.sort((a, b) => b.costPerShare - a.costPerShare);
+    case 'specific':
+      // The named lot first, then oldest-first for anything it can't cover
+      return [
+        ...byDate.filter(lot => lot.id === specificLotId),
+        ...byDate.filter(lot => lot.id !== specificLotId),
+      ];
+  }
+}
+
+/**
+ * Replay trades into tax lots.
+ *
+ * Trades are processed in date order with buys before sells on the same day.
+ * A buy's fees are added to its lot's cost and a sell's fees are taken off its
+ * proceeds, as they are for tax purposes.
+ * Zero-cost buys (the extra shares from Robinhood's SPL split rows) are spread
+ * across the ticker's open lots instead of opening a $0 lot, so a split keeps
+ * each lot's total cost. Sells close shares from lots in the order given by the
+ * lot method; for 'specific', a sell's `lotId` names the buy lot to sell first.
+ * Shares sold beyond what the trades ever bought have no known cost and are
+ * left out.
+ */
+export function buildTaxLots(trades: Trade[], method: LotMethod): TaxLotResult {
+  const sortedTrades = [...trades].sort((a, b) => {
+    const byDate = a.date.localeCompare(b.date);
+    if (byDate !== 0) return byDate;
+    return (a.type === 'sell' ? 1 : 0) - (b.type === 'sell' ? 1 : 0);
+  });
+
+  const lotsByTicker: Record<string, TaxLot[]> = {};
+  const realizedLots: RealizedLot[] = [];
+
+  for (const trade of sortedTrades) {
+    const lots = lotsByTicker[trade.ticker] ??= [];
+    const price = trade.price ?? 0;
+
+    if (trade.type === 'buy') {
+      const heldShares = lots.reduce((sum, lot) => sum + lot.shares, 0);
+      if (price === 0 && heldShares > 0) {
+        // Split shares: scale every open lot, keeping its total cost
+        const ratio = (heldShares + trade.shares) / heldShares;
+        for (const lot of lots) {
+          lot.shares *= ratio;
+          lot.costPerShare /= ratio;
+        }
+      } else {
+        // Commissions and fees are part of what the shares cost
+        lots.push({
+          id: trade.id,
+          ticker: trade.ticker,
+          acquiredDate: trade.date,
+          shares: trade.shares,
+          costPerShare: trade.shares > 0 ? price + (trade.fees ?? 0) / trade.shares : price,
+        });
+      }
+      continue;
+    }
+
+    // Sell fees come off the proceeds, shared across the lots by shares
+    const proceedsPerShare = trade.shares > 0 ? price - (trade.fees ?? 0) / trade.shares : price;
+    let remaining = trade.shares;
+    for (const lot of orderLots(lots, method, trade.lotId)) {
+      if (remaining <= 0) break;
+      const shares = Math.min(lot.shares, remaining);
+      if (shares <= 0) continue;
+
+      const costBasis = shares * lot.costPerShare;
+      const proceeds = shares * proceedsPerShare;
+      realizedLots.push({
+        lotId: lot.id,
+        ticker: lot.ticker,
+        acquiredDate: lot.acquiredDate,
+        soldDate: trade.date,
+        shares,
+        costBasis,
+        proceeds,
+        gain: proceeds - costBasis,
+      });
+
+      lot.shares -= shares;
+      remaining -= shares;
+    }
+
+    // Drop lots that are fully sold (allowing for floating-point dust)
+    lotsByTicker[trade.ticker] = lots.filter(lot => lot.shares > 1e-9);
+  }
+
+  return {
+    openLots: Object.values(lotsByTicker).flat(),
+    realizedLots,
+  };
+}
+
+// Gain on the shares still held in a lot, at the given price
+export function getUnrealizedGain(lot: TaxLot, currentPrice: number): number {
+  return lot.shares * (currentPrice - lot.costPerShare);
+}
@@ -83,11 +83,18 @@ export default defineConfig({
             const apiDuration = performance.now() - apiStart
             logToFile(`[API] Yahoo Finance ${ticker}: ${apiDuration.toFixed(2)}ms`)
 
-            const prices = result.quotes.map((quote) => ({
-              date: quote.date.toISOString().split('T')[0],
-              price: Math.round((quote.adjclose ?? quote.close ?? 0) * 100) / 100,
-              high: Math.round((quote.high ?? 0) * 100) / 100,
-            })).filter((p) => p.price > 0)
+            // Keep the raw close and the dividend-adjusted close apart; the client picks one.
+            // `price` defaults to the raw close so dividends aren't baked into history.
+            const prices = result.quotes.map((quote) => {
+              const close = Math.round((quote.close ?? quote.adjclose ?? 0) * 100) / 100
+              return {
+                date: quote.date.toISOString().split('T')[0],
+                price: close,
+                close,
+                adjClose: Math.round((quote.adjclose ?? quote.close ?? 0) * 100) / 100,
+                high: Math.round((quote.high ?? 0) * 100) / 100,
+              }
+            }).filter((p) => p.price > 0)
 
             // Extract split events
             const splits = (result.events?.splits || []).map((split: { date: Date; numerator: number; denominator: number }) => ({
@@ -96,11 +103,18 @@ export default defineConfig({
               splitFactor: split.numerator / split.denominator,
             }))
 
+            // Extract dividend events (cash per share, owed to anyone holding before the ex-date)
+            const dividends = (result.events?.dividends || []).map((dividend: { date: Date; amount: number }) => ({
+              date: dividend.date.toISOString().split('T')[0],
+              ticker,
+              amount: dividend.amount,
+            }))
+
             const totalDuration = performance.now() - startTime
-            logToFile(`[API] Total ${ticker} handler: ${totalDuration.toFixed(2)}ms (${prices.length} prices, ${splits.length} splits)`)
+            logToFile(`[API] Total ${ticker} handler: ${totalDuration.toFixed(2)}ms (${prices.length} prices, ${splits.length} splits, ${dividends.length} dividends)`)
 
             res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ prices, splits }))
+            res.end(JSON.stringify({ prices, splits, dividends }))
           } catch (error) {
             console.error('Yahoo Finance error:', error)
             logToFile(`[ERROR] Yahoo Finance: ${String(error)}`)